@@ -0,0 +1,291 @@
+import {
+  assert,
+  assertEquals,
+  assertStrictEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "https://deno.land/std/testing/asserts.ts";
+
+import Iter, { AsyncIter } from "./mod.ts";
+import { None, none, Some } from "./option.ts";
+import { Result } from "./result.ts";
+import { cmpNumbers, parseIntegral, range } from "./util.ts";
+import { closeCounter } from "./test_util.ts";
+
+async function* gen<T>(values: Iterable<T>): AsyncGenerator<T> {
+  for (const value of values) {
+    await Promise.resolve();
+    yield value;
+  }
+}
+
+const delay = <T>(value: T, ms = 0): Promise<T> =>
+  new Promise((resolve) => setTimeout(() => resolve(value), ms));
+
+Deno.test("async: is async iterable", async () => {
+  const got: number[] = [];
+  for await (const v of new AsyncIter(gen([1, 2, 3]))) {
+    got.push(v);
+  }
+  assertEquals(got, [1, 2, 3]);
+});
+
+Deno.test("async: wraps sync sources", async () => {
+  assertEquals(await new AsyncIter([1, 2]).collect(Array), [1, 2]);
+  assertEquals(await new AsyncIter("ab").collect(Array), ["a", "b"]);
+  assertEquals(await new AsyncIter(range(3)).collect(Array), [0, 1, 2]);
+  assertEquals(
+    await new AsyncIter([delay(1), delay(2)]).collect(Array),
+    [1, 2],
+    "expect promises to be awaited",
+  );
+});
+
+Deno.test("async: toAsync", async () => {
+  const iter = new Iter([1, 2, 3]).toAsync().map((n) => delay(n * 2));
+  assertEquals(await iter.collect(Array), [2, 4, 6]);
+});
+
+Deno.test("async: enumerate", async () => {
+  assertEquals(
+    await new AsyncIter(gen(["a", "b"])).enumerate().collect(Array),
+    [
+      [0, "a"],
+      [1, "b"],
+    ],
+  );
+});
+
+Deno.test("async: fold", async () => {
+  const sum = await new AsyncIter(gen([1, 2, 3, 4])).fold(
+    0,
+    (acc, v) => delay(acc + v),
+  );
+  assertStrictEquals(sum, 10);
+  assertStrictEquals(
+    await new AsyncIter(gen([] as number[])).fold1((a, b) => a + b),
+    None,
+  );
+});
+
+Deno.test("async: tryFold", async () => {
+  const fn = (acc: number, v: string): Result<number, string> => {
+    const num = parseIntegral(v);
+    if (none(num)) {
+      return { success: false, value: v };
+    }
+    return { success: true, value: acc + num.value };
+  };
+
+  assertEquals(await new AsyncIter(gen(["1", "2", "3"])).tryFold(0, fn), {
+    success: true,
+    value: 6,
+  });
+  assertEquals(await new AsyncIter(gen(["1", "a", "3"])).tryFold(0, fn), {
+    success: false,
+    value: "a",
+  });
+});
+
+Deno.test("async: find and filter", async () => {
+  // find closes generators, so an array is used to continue afterwards
+  const iter = new AsyncIter([1, 2, 3, 4]);
+  assertEquals(await iter.find((n) => delay(n > 1)), Some(2));
+  assertEquals(await iter.filter((n) => delay(n % 2 === 0)).collect(Array), [
+    4,
+  ]);
+  assertEquals(
+    await new AsyncIter(gen(["1", "a", "2"])).filterMap(parseIntegral).collect(
+      Array,
+    ),
+    [1, 2],
+  );
+});
+
+Deno.test("async: slicing adapters", async () => {
+  const numbers = () => new AsyncIter(range());
+  assertEquals(await numbers().take(3).collect(Array), [0, 1, 2]);
+  assertEquals(await numbers().skip(2).take(2).collect(Array), [2, 3]);
+  assertEquals(await numbers().stepBy(3).take(2).collect(Array), [0, 3]);
+  assertEquals(await numbers().takeWhile((n) => n < 2).collect(Array), [0, 1]);
+  assertEquals(
+    await numbers().skipWhile((n) => n < 2).take(1).collect(Array),
+    [2],
+  );
+  for (const n of [-1, 1.5, NaN]) {
+    assertThrows(() => numbers().take(n), RangeError);
+    assertThrows(() => numbers().skip(n), RangeError);
+  }
+});
+
+Deno.test("async: composition adapters", async () => {
+  assertEquals(
+    await new AsyncIter(gen([1, 2])).chain([3], gen([4])).collect(Array),
+    [1, 2, 3, 4],
+  );
+  assertEquals(
+    await new AsyncIter(gen([1, 2])).flatMap((n) => gen(range(n))).collect(
+      Array,
+    ),
+    [0, 0, 1],
+  );
+  assertEquals(
+    await new AsyncIter(gen(["a", "b"])).intersperse(",").collect(String),
+    "a,b",
+  );
+  assertEquals(
+    await new AsyncIter(gen([1, 2, 3])).zip(gen(["a", "b"])).collect(Array),
+    [[1, "a"], [2, "b"]],
+  );
+});
+
+Deno.test("async: comparisons", async () => {
+  assert(await new AsyncIter(gen([1, 2])).eq([1, 2]));
+  assert(await new AsyncIter(gen([1, 2])).lt(gen([1, 3])));
+  assert(await new AsyncIter(gen([1, 3])).gt([1, 2]));
+  assertStrictEquals(
+    await new AsyncIter(gen([1, NaN])).partialCmpBy([1, 2], cmpNumbers),
+    None,
+  );
+  assert(await new AsyncIter(gen([1, 2])).all((n) => delay(n > 0)));
+  assert(!(await new AsyncIter(gen([1, 2])).any((n) => n > 2)));
+});
+
+Deno.test("async: max and min", async () => {
+  assertEquals(await new AsyncIter(gen([1, 4, 2])).max(), Some(4));
+  assertEquals(await new AsyncIter(gen([3, 1, 2])).min(), Some(1));
+  assertEquals(
+    await new AsyncIter(gen(["aaa", "b", "cc"])).maxByKey((s) =>
+      delay(s.length)
+    ),
+    Some("aaa"),
+  );
+});
+
+Deno.test("async: collect and unzip", async () => {
+  assertEquals(
+    await new AsyncIter(gen([1, 2, 2])).collect(Set),
+    new Set([1, 2]),
+  );
+  const [a, b] = await new AsyncIter(
+    gen<[number, string]>([[1, "a"], [2, "b"]]),
+  )
+    .unzip(Array, String);
+  assertEquals(a, [1, 2]);
+  assertEquals(b, "ab");
+});
+
+Deno.test("async: buffered", async () => {
+  let active = 0;
+  let maxActive = 0;
+  const f = async (ms: number) => {
+    maxActive = Math.max(maxActive, ++active);
+    await delay(undefined, ms);
+    active--;
+    return ms;
+  };
+
+  const got = await new AsyncIter(gen([30, 10, 20, 0, 5])).buffered(2, f)
+    .collect(Array);
+  assertEquals(got, [30, 10, 20, 0, 5], "shall keep the order");
+  assertStrictEquals(maxActive, 2);
+});
+
+Deno.test("async: bufferUnordered", async () => {
+  let active = 0;
+  let maxActive = 0;
+  const f = async (ms: number) => {
+    maxActive = Math.max(maxActive, ++active);
+    await delay(undefined, ms);
+    active--;
+    return ms;
+  };
+
+  const got = await new AsyncIter(gen([30, 10, 5, 50])).bufferUnordered(2, f)
+    .collect(Array);
+  assertEquals(got, [10, 5, 30, 50], "shall yield in completion order");
+  assertStrictEquals(maxActive, 2);
+});
+
+Deno.test("async: buffered applies backpressure", async () => {
+  let pulled = 0;
+  const source = new AsyncIter(range(5)).map((n) => (pulled++, n));
+  const iter = source.buffered(3, (n) => delay(n));
+  assertStrictEquals((await iter.next()).value, 0);
+  assertStrictEquals(pulled, 3);
+  assertStrictEquals((await iter.next()).value, 1);
+  assertStrictEquals(pulled, 4);
+  assertEquals(await iter.collect(Array), [2, 3, 4]);
+});
+
+Deno.test("async: buffered propagates rejections", async () => {
+  for (const method of ["buffered", "bufferUnordered"] as const) {
+    let pulled = 0;
+    let running = 0;
+    const source = new AsyncIter(range(10)).map((n) => (pulled++, n));
+    const iter = source[method](3, async (n) => {
+      running++;
+      try {
+        await delay(undefined, n * 5);
+        if (n >= 1) {
+          throw new Error(`failed ${n}`);
+        }
+        return n;
+      } finally {
+        running--;
+      }
+    });
+    await assertThrowsAsync(() => iter.collect(Array), Error, "failed 1");
+    assert(pulled < 10, "shall stop pulling from the source");
+    assertStrictEquals(running, 0, "shall wait for the pending calls");
+    assert((await iter.next()).done);
+  }
+});
+
+Deno.test("async: return closes the source on early termination", async () => {
+  const { counter, asyncValues: values } = closeCounter();
+  for await (const n of new AsyncIter(values(1, 2, 3)).map((n) => delay(n))) {
+    if (n === 1) {
+      break;
+    }
+  }
+  assertStrictEquals(counter.closed, 1);
+  assertEquals(await new AsyncIter(values(1, 2)).find((n) => n > 0), Some(1));
+  assertStrictEquals(counter.closed, 2);
+  assert(await new AsyncIter(values(1, 2)).any((n) => delay(n === 1)));
+  assertStrictEquals(counter.closed, 3);
+  assert(!(await new AsyncIter(values(1, 2)).all((n) => n === 2)));
+  assertStrictEquals(counter.closed, 4);
+  assert((await new AsyncIter(values(1, 2)).cmp(values(2, 1))) < 0);
+  assertStrictEquals(counter.closed, 6);
+  assertEquals(await new AsyncIter(values(1, 2)).take(1).collect(Array), [1]);
+  assertStrictEquals(counter.closed, 7);
+  assertEquals(
+    await new AsyncIter(values(1, 2, 3)).zip(values("a")).collect(Array),
+    [[1, "a"]],
+  );
+  assertStrictEquals(counter.closed, 9);
+});
+
+Deno.test("async: return closes the source when a callback throws", async () => {
+  const { counter, asyncValues: values } = closeCounter();
+  const fail = () => Promise.reject(new Error("fail"));
+  await assertThrowsAsync(
+    () => new AsyncIter(values(1, 2)).map(fail).next(),
+    Error,
+    "fail",
+  );
+  assertStrictEquals(counter.closed, 1);
+  await assertThrowsAsync(
+    () => new AsyncIter(values(1, 2)).forEach(fail),
+    Error,
+    "fail",
+  );
+  assertStrictEquals(counter.closed, 2);
+  await assertThrowsAsync(
+    () => new AsyncIter(values(1, 2)).buffered(2, fail).next(),
+    Error,
+    "fail",
+  );
+  assertStrictEquals(counter.closed, 3);
+});
@@ -0,0 +1,1224 @@
+import { None, Option, Some, some } from "./option.ts";
+import { ok, Result } from "./result.ts";
+import {
+  Collection,
+  Constructor,
+  default as collector,
+  First,
+  Second,
+} from "./extender.ts";
+import { Comparator, maxCmp, minCmp, totalCmp } from "./cmp.ts";
+import type { IntoIter } from "./mod.ts";
+
+/**
+ * **Awaitable** is a value or a promise of it. Functions passed to
+ * AsyncIter methods may return either.
+ */
+export type Awaitable<T> = T | PromiseLike<T>;
+
+/**
+ * **IntoAsyncIter** is the type that a value must satisfy to
+ * be turned into an AsyncIter. Synchronous iterables and iterators
+ * are accepted as well.
+ */
+export type IntoAsyncIter<T> =
+  | AsyncIterable<T>
+  | AsyncIterator<T>
+  | IntoIter<T>;
+
+const fromIntoAsyncIter = <T>(i: IntoAsyncIter<T>): AsyncIter<T> => {
+  if (i instanceof AsyncIter) {
+    return i;
+  }
+  return new AsyncIter(i);
+};
+
+/**
+ * **fromSync** creates an async iterator over a synchronous iterator,
+ * awaiting its values the same way a `for await...of` loop does.
+ */
+const fromSync = <T>(
+  iter: Iterator<Awaitable<T>>,
+): AsyncIterator<T> => ({
+  async next(): Promise<IteratorResult<T>> {
+    const { value, done } = iter.next();
+    if (done) {
+      return { value, done };
+    }
+    return { value: await value };
+  },
+  return(value?: unknown): Promise<IteratorResult<T>> {
+    iter.return?.(value);
+    return Promise.resolve({ value, done: true });
+  },
+});
+
+/**
+ * **callOrClose** calls the function with the given arguments and
+ * awaits its result, closing the iterator if it throws or rejects.
+ */
+const callOrClose = async <A extends unknown[], R>(
+  iter: AsyncIter<unknown>,
+  f: (...args: A) => Awaitable<R>,
+  ...args: A
+): Promise<R> => {
+  try {
+    return await f(...args);
+  } catch (e) {
+    await iter.return();
+    throw e;
+  }
+};
+
+const checkLimit = (limit: number) => {
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new RangeError(`Iter: Invalid limit ${limit}, must be positive`);
+  }
+};
+
+const checkCount = (n: number, what: string) => {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new RangeError(`Iter: Invalid ${what} ${n}, must be non-negative`);
+  }
+};
+
+/**
+ * AsyncIter is the asynchronous counterpart of Iter. It wraps
+ * ECMAScript 2018's async iteration protocol, providing the same
+ * lazy methods as Iter, that return promises instead.
+ * 
+ * Any object that implements either Symbol.asyncIterator, Symbol.iterator
+ * or a next() method can be wrapped by AsyncIter, so async generators,
+ * ReadableStreams and Deno's readers can be used. The functions passed to
+ * its methods may return promises, which are awaited before the iteration
+ * continues.
+ * 
+ * Like Iter, an AsyncIter can only be used once.
+ * 
+ * @example
+ * // Read the lines of a file
+ * const file = await Deno.open("file.txt");
+ * const lines = file.readable
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(new TextLineStream());
+ * const nonEmpty = await new AsyncIter(lines)
+ *   .filter((line) => line.length > 0)
+ *   .count();
+ * 
+ * @example
+ * // Iter and AsyncIter can be converted into each other
+ * const names = await new Iter(["a.txt", "b.txt"])
+ *   .toAsync()
+ *   .map((name) => Deno.readTextFile(name))
+ *   .collect(Array);
+ * const lengths = new Iter(names).map((text) => text.length);
+ * 
+ * @template T the type to iterate over
+ */
+export default class AsyncIter<T> implements AsyncIterableIterator<T> {
+  private readonly iter: AsyncIterator<T>;
+  private closed = false;
+
+  /**
+   * Wraps any object that is an async iterable or iterator, or a
+   * synchronous one, in an AsyncIter object
+   * 
+   * @param iter The object to wrap
+   */
+  constructor(iter: IntoAsyncIter<T>) {
+    if (typeof iter === "string") {
+      this.iter = fromSync((iter as Iterable<T>)[Symbol.iterator]());
+    } else if (Symbol.asyncIterator in iter) {
+      this.iter = (iter as AsyncIterable<T>)[Symbol.asyncIterator]();
+    } else if (Symbol.iterator in iter) {
+      this.iter = fromSync((iter as Iterable<T>)[Symbol.iterator]());
+    } else {
+      // Awaiting the result of next works for both sync and async iterators
+      const source = iter as Iterator<T> | AsyncIterator<T>;
+      this.iter = {
+        next: async () => await source.next(),
+        return: async (value?: unknown) => {
+          await source.return?.(value);
+          return { value, done: true };
+        },
+      };
+    }
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  /**
+   * **next** advances the iterator, resolving to the next element
+   * and a done flag that indicates if the iteration ended
+   */
+  next(): Promise<IteratorResult<T>> {
+    return this.iter.next();
+  }
+
+  /**
+   * **return** closes the iterator, calling the **return** method of
+   * the underlying iterator, if it has one, at most once. See Iter's
+   * **return** for details.
+   * 
+   * @param value The value to return
+   */
+  async return(value?: unknown): Promise<IteratorReturnResult<unknown>> {
+    if (!this.closed) {
+      this.closed = true;
+      await this.iter.return?.(value);
+    }
+    return { value, done: true };
+  }
+
+  /**
+   * **throw** throws the error into the underlying iterator, if it has
+   * a **throw** method, and resolves to its result. Otherwise, it closes
+   * the iterator and rejects with the error.
+   * 
+   * @param e The error to throw
+   */
+  async throw(e?: unknown): Promise<IteratorResult<T>> {
+    if (!this.closed && typeof this.iter.throw === "function") {
+      return this.iter.throw(e);
+    }
+    await this.return();
+    throw e;
+  }
+
+  /**
+   * **adapter** completes the source of an adapter created from
+   * this iterator with **return** and **throw** methods, which
+   * forward the calls to this iterator. The given function is
+   * called on **return**, to close any other iterators the adapter
+   * reads from.
+   */
+  protected adapter<S extends AsyncIterator<unknown>>(
+    source: S,
+    close?: () => Awaitable<unknown>,
+  ): S {
+    return {
+      ...source,
+      return: async (value?: unknown) => {
+        await this.return();
+        await close?.();
+        return { value, done: true };
+      },
+      throw: async (e?: unknown) => {
+        try {
+          await this.throw(e);
+        } finally {
+          await this.return();
+          await close?.();
+        }
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  /**
+   * **enumerate** creates an iterator which gives the current
+   * iteration count as well as the next value.
+   */
+  enumerate(): AsyncIter<[number, T]> {
+    let index = 0;
+    const next = async (): Promise<IteratorResult<[number, T]>> => {
+      const { value, done } = await this.next();
+      if (done) {
+        return { value, done };
+      }
+      return { value: [index++, value] };
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **fold** applies a function to each element, resolving to
+   * a single value and consuming the iterator.
+   * 
+   * @example
+   * const total = await new AsyncIter(urls).fold(0, async (acc, url) => {
+   *   const res = await fetch(url);
+   *   return acc + (await res.arrayBuffer()).byteLength;
+   * });
+   * 
+   * @param init The accumulator's initial value.
+   * @param f Function that takes as arguments the
+   * accumulator's value and the current value iterated
+   * over and returns the new accumulator value.
+   * @returns the final accumulator value
+   */
+  async fold<U>(init: U, f: (acc: U, v: T) => Awaitable<U>): Promise<U> {
+    for (
+      let { value, done } = await this.next();
+      !done;
+      ({ value, done } = await this.next())
+    ) {
+      init = await callOrClose(this, f, init, value);
+    }
+    return init;
+  }
+
+  /**
+   * **fold1** is the same as **fold**, but uses the first
+   * element as the initial value for the accumulator.
+   * If the iterator is empty, it resolves to None.
+   * 
+   * @param f
+   */
+  async fold1(f: (acc: T, v: T) => Awaitable<T>): Promise<Option<T>> {
+    const { value, done } = await this.next();
+    if (done) {
+      return None;
+    }
+    return Some(await this.fold(value, f));
+  }
+
+  /**
+   * **count** counts the elements in the iterator, consuming it.
+   * 
+   * @returns the number of elements in the iterator
+   */
+  count(): Promise<number> {
+    return this.fold(0, (acc) => acc + 1);
+  }
+
+  /**
+   * **forEach** calls the provided function for each element in
+   * the iterator, consuming it. If the function returns a promise,
+   * it is awaited before the next element is requested.
+   * 
+   * @param f The function to call
+   */
+  forEach(f: (value: T) => Awaitable<void>): Promise<void> {
+    return this.fold<void>(undefined, (_, value) => f(value));
+  }
+
+  /**
+   * @returns the last element in the iterator, if any, consuming
+   * the iterator.
+   */
+  last(): Promise<Option<T>> {
+    return this.fold<Option<T>>(None, (_, v) => Some(v));
+  }
+
+  /**
+   * **tryFold** applies the function as long as it returns successfully,
+   * producing a final, single value. It short-circuits and closes the
+   * iterator when an error occurs. See Iter's **tryFold** for details.
+   * 
+   * @param init The inital value of the accumulator
+   * @param f The function to be applied
+   * @returns The final value of the accumulator, if the function succeeds,
+   * else the first error that occured
+   */
+  async tryFold<U, E>(
+    init: U,
+    f: (acc: U, v: T) => Awaitable<Result<U, E>>,
+  ): Promise<Result<U, E>> {
+    for (
+      let { value: v, done } = await this.next();
+      !done;
+      ({ value: v, done } = await this.next())
+    ) {
+      const res = await callOrClose(this, f, init, v);
+      if (ok(res)) {
+        init = res.value;
+      } else {
+        await this.return();
+        return res;
+      }
+    }
+    return { success: true, value: init };
+  }
+
+  /**
+   * **tryForEach** consumes the iterator, applying the provided function
+   * to each element. If the function returns unsuccessfully, the iteration
+   * stops and the error is returned.
+   * 
+   * @param f The function to call
+   */
+  tryForEach<E>(
+    f: (v: T) => Awaitable<Result<void, E>>,
+  ): Promise<Result<void, E>> {
+    return this.tryFold<void, E>(undefined, (_, v) => f(v));
+  }
+
+  /**
+   * **find** finds the first element in the iterator that satisfies the
+   * given predicate, consuming all the previous elements.
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The first element satisfying the predicate, if any
+   */
+  find(p: (v: T) => Awaitable<boolean>): Promise<Option<T>>;
+  find<S extends T>(p: (v: T) => v is S): Promise<Option<S>>;
+  find(p: (v: T) => Awaitable<boolean>): Promise<Option<T>> {
+    return this.findMap(async (v) => (await p(v)) ? Some(v) : None);
+  }
+
+  /**
+   * **findMap** finds the first element that after applying the function
+   * is Some, consuming all the previous elements.
+   * 
+   * @param f The function to apply
+   * @returns The first Some value after the function was applied, if any
+   */
+  async findMap<U>(f: (v: T) => Awaitable<Option<U>>): Promise<Option<U>> {
+    const res = await this.tryFold<undefined, Option<U>>(
+      undefined,
+      async (_, v) => {
+        const value = await f(v);
+        if (some(value)) {
+          return { success: false, value };
+        }
+        return { success: true, value: undefined };
+      },
+    );
+    return ok(res) ? None : res.value;
+  }
+
+  /**
+   * **filter** creates an iterator that returns only the elements in the old
+   * iterator that satisfy the given predicate
+   * 
+   * @param p The predicate to be satisfied
+   */
+  filter(p: (v: T) => Awaitable<boolean>): AsyncIter<T>;
+  filter<S extends T>(p: (v: T) => v is S): AsyncIter<S>;
+  filter(p: (v: T) => Awaitable<boolean>): AsyncIter<T> {
+    const next = async (): Promise<IteratorResult<T>> => {
+      for (let res = await this.next(); !res.done; res = await this.next()) {
+        if (await callOrClose(this, p, res.value)) {
+          return res;
+        }
+      }
+      return { value: undefined, done: true };
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **filterMap** creates an iterator that returns only the values of the
+   * Some elements resulted from applying the passed function to the elements
+   * of the old iterator.
+   * 
+   * @param f The function to be applied
+   */
+  filterMap<U>(f: (v: T) => Awaitable<Option<U>>): AsyncIter<U> {
+    const next = async (): Promise<IteratorResult<U>> => {
+      for (let res = await this.next(); !res.done; res = await this.next()) {
+        const mapped = await callOrClose(this, f, res.value);
+        if (some(mapped)) {
+          return { value: mapped.value };
+        }
+      }
+      return { value: undefined, done: true };
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **map** creates a new iterator that calls the given function
+   * on each element of the old iterator. If the function returns
+   * a promise, the new iterator yields its resolved value.
+   * 
+   * The function is called for an element only after the promise
+   * returned for the previous one resolved.
+   * 
+   * @example
+   * const bodies = new AsyncIter(urls).map(async (url) => {
+   *   const res = await fetch(url);
+   *   return res.text();
+   * });
+   * 
+   * @param f The function to apply
+   */
+  map<U>(f: (v: T) => Awaitable<U>): AsyncIter<U> {
+    const next = async (): Promise<IteratorResult<U>> => {
+      const { value, done } = await this.next();
+      if (done) {
+        return { value, done };
+      }
+      return { value: await callOrClose(this, f, value) };
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **buffered** is like **map**, but runs the function on up to
+   * limit elements concurrently. The results are yielded in the order
+   * of the elements they were computed from.
+   * 
+   * Elements are requested from this iterator only while fewer than
+   * limit results are pending, so the source is never read further
+   * ahead than the limit allows. If the function throws or its promise
+   * rejects, this iterator is closed and the error is propagated by
+   * **next** once the other pending calls have settled; their results
+   * and errors are discarded, and the returned iterator is done
+   * afterwards.
+   * 
+   * @example
+   * // Fetch at most 4 URLs at a time
+   * const bodies = new AsyncIter(urls).buffered(4, async (url) => {
+   *   const res = await fetch(url);
+   *   return res.text();
+   * });
+   * 
+   * @param limit The maximum number of pending results
+   * @param f The function to apply
+   */
+  buffered<U>(limit: number, f: (v: T) => Awaitable<U>): AsyncIter<U> {
+    checkLimit(limit);
+
+    const pending: Promise<U>[] = [];
+    let sourceDone = false;
+    let failed = false;
+    const next = async (): Promise<IteratorResult<U>> => {
+      while (!sourceDone && !failed && pending.length < limit) {
+        const { value, done } = await this.next();
+        if (done) {
+          sourceDone = true;
+          break;
+        }
+        const task = (async () => await f(value))();
+        task.catch(() => failed = true);
+        pending.push(task);
+      }
+      const task = pending.shift();
+      if (!task) {
+        return { value: undefined, done: true };
+      }
+      try {
+        return { value: await task };
+      } catch (e) {
+        failed = true;
+        const inFlight = pending.splice(0);
+        await this.return();
+        await Promise.allSettled(inFlight);
+        throw e;
+      }
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **bufferUnordered** is like **buffered**, but yields the results
+   * in the order they are computed, as soon as each one is available.
+   * 
+   * @example
+   * // Process the files concurrently, in the order they are read
+   * const sizes = new AsyncIter(paths).bufferUnordered(8, async (path) => {
+   *   const text = await Deno.readTextFile(path);
+   *   return [path, text.length];
+   * });
+   * 
+   * @param limit The maximum number of pending results
+   * @param f The function to apply
+   */
+  bufferUnordered<U>(limit: number, f: (v: T) => Awaitable<U>): AsyncIter<U> {
+    checkLimit(limit);
+
+    const pending = new Map<number, Promise<[number, U]>>();
+    let key = 0;
+    let sourceDone = false;
+    let failed = false;
+    const next = async (): Promise<IteratorResult<U>> => {
+      while (!sourceDone && !failed && pending.size < limit) {
+        const { value, done } = await this.next();
+        if (done) {
+          sourceDone = true;
+          break;
+        }
+        const taskKey = key++;
+        const task = (async (): Promise<[number, U]> => [
+          taskKey,
+          await f(value),
+        ])();
+        task.catch(() => failed = true);
+        pending.set(taskKey, task);
+      }
+      if (pending.size === 0) {
+        return { value: undefined, done: true };
+      }
+      try {
+        const [doneKey, value] = await Promise.race(pending.values());
+        pending.delete(doneKey);
+        return { value };
+      } catch (e) {
+        failed = true;
+        const inFlight = [...pending.values()];
+        pending.clear();
+        await this.return();
+        await Promise.allSettled(inFlight);
+        throw e;
+      }
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **take** creates an iterator that yields the first n elements,
+   * or fewer if the underlying iterator ends sooner.
+   * 
+   * @param n The number of elements to take
+   */
+  take(n: number): AsyncIter<T> {
+    checkCount(n, "number of elements");
+    let remaining = n;
+    const next = (): Promise<IteratorResult<T>> => {
+      if (remaining <= 0) {
+        return this.return();
+      }
+      remaining--;
+      return this.next();
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **skip** creates an iterator that skips the first n elements.
+   * 
+   * @param n The number of elements to skip
+   */
+  skip(n: number): AsyncIter<T> {
+    checkCount(n, "number of elements");
+    let remaining = n;
+    const next = async (): Promise<IteratorResult<T>> => {
+      while (remaining > 0) {
+        remaining--;
+        if ((await this.next()).done) {
+          remaining = 0;
+          return { value: undefined, done: true };
+        }
+      }
+      return this.next();
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **takeWhile** creates an iterator that yields elements as long
+   * as they satisfy the given predicate.
+   * 
+   * @param p The predicate to be satisfied
+   */
+  takeWhile(p: (v: T) => Awaitable<boolean>): AsyncIter<T>;
+  takeWhile<S extends T>(p: (v: T) => v is S): AsyncIter<S>;
+  takeWhile(p: (v: T) => Awaitable<boolean>): AsyncIter<T> {
+    let finished = false;
+    const next = async (): Promise<IteratorResult<T>> => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      const { value, done } = await this.next();
+      if (done) {
+        finished = true;
+        return { value, done };
+      }
+      if (!(await callOrClose(this, p, value))) {
+        finished = true;
+        return this.return();
+      }
+      return { value };
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **skipWhile** creates an iterator that skips elements as long
+   * as they satisfy the given predicate, and then yields all the
+   * remaining elements.
+   * 
+   * @param p The predicate to be satisfied
+   */
+  skipWhile(p: (v: T) => Awaitable<boolean>): AsyncIter<T> {
+    let skipping = true;
+    const next = async (): Promise<IteratorResult<T>> => {
+      if (!skipping) {
+        return this.next();
+      }
+      skipping = false;
+      for (let res = await this.next(); !res.done; res = await this.next()) {
+        if (!(await callOrClose(this, p, res.value))) {
+          return res;
+        }
+      }
+      return { value: undefined, done: true };
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **mapWhile** creates an iterator that applies the given function
+   * to the elements, yielding the values of the results until the
+   * function returns None.
+   * 
+   * @param f The function to apply
+   */
+  mapWhile<U>(f: (v: T) => Awaitable<Option<U>>): AsyncIter<U> {
+    let finished = false;
+    const next = async (): Promise<IteratorResult<U>> => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      const { value, done } = await this.next();
+      if (done) {
+        finished = true;
+        return { value, done };
+      }
+      const mapped = await callOrClose(this, f, value);
+      if (some(mapped)) {
+        return { value: mapped.value };
+      }
+      finished = true;
+      return this.return();
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **stepBy** creates an iterator that yields the first element
+   * and then every step-th element after it.
+   * 
+   * @param step The distance between the yielded elements. Must be
+   * a positive integer.
+   */
+  stepBy(step: number): AsyncIter<T> {
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new RangeError(`Iter: Invalid step ${step}, must be positive`);
+    }
+
+    let first = true;
+    const next = async (): Promise<IteratorResult<T>> => {
+      if (first) {
+        first = false;
+        return this.next();
+      }
+      for (let i = 1; i < step; i++) {
+        if ((await this.next()).done) {
+          return { value: undefined, done: true };
+        }
+      }
+      return this.next();
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **cmpBy** lexicographically compares the elements in this iterator
+   * to the ones in the other iterator using the given comparator.
+   * See Iter's **cmpBy** for details.
+   * 
+   * @param i The iterable or iterator to compare to
+   * @param cmp The comparison function
+   */
+  async cmpBy<U>(
+    i: IntoAsyncIter<U>,
+    cmp: (lhs: T, rhs: U) => Awaitable<number>,
+  ): Promise<number> {
+    const other = fromIntoAsyncIter(i);
+    const close = async () => {
+      await this.return();
+      await other.return();
+    };
+
+    while (true) {
+      const lhs = await this.next();
+      const rhs = await other.next();
+
+      if (lhs.done) {
+        if (rhs.done) {
+          return 0;
+        }
+        await other.return();
+        return -1;
+      }
+      if (rhs.done) {
+        await this.return();
+        return 1;
+      }
+
+      let cmpRes: number;
+      try {
+        cmpRes = await cmp(lhs.value, rhs.value);
+      } catch (e) {
+        await close();
+        throw e;
+      }
+      if (cmpRes !== 0) {
+        await close();
+        return cmpRes;
+      }
+    }
+  }
+
+  /**
+   * **cmp** lexicographically compares this iterator to the other,
+   * using operators `<` and `>`.
+   */
+  cmp(i: IntoAsyncIter<T>): Promise<number> {
+    return this.cmpBy(i, totalCmp);
+  }
+
+  /**
+   * **eqBy** checks if two iterators are equal with the given
+   * identity function.
+   * 
+   * @param i The iterable or iterator to compare to
+   * @param eq The identity function
+   */
+  async eqBy<U>(
+    i: IntoAsyncIter<U>,
+    eq: (lhs: T, rhs: U) => Awaitable<boolean>,
+  ): Promise<boolean> {
+    const other = fromIntoAsyncIter(i);
+    const close = async () => {
+      await this.return();
+      await other.return();
+    };
+
+    while (true) {
+      const lhs = await this.next();
+      const rhs = await other.next();
+
+      if (lhs.done) {
+        if (!rhs.done) {
+          await other.return();
+          return false;
+        }
+        return true;
+      }
+      if (rhs.done) {
+        await this.return();
+        return false;
+      }
+
+      let isEq: boolean;
+      try {
+        isEq = await eq(lhs.value, rhs.value);
+      } catch (e) {
+        await close();
+        throw e;
+      }
+      if (!isEq) {
+        await close();
+        return false;
+      }
+    }
+  }
+
+  /**
+   * **eq** determines if this iterator is equal to another
+   * using strict equality.
+   */
+  eq(i: IntoAsyncIter<T>): Promise<boolean> {
+    return this.eqBy(i, (lhs, rhs) => lhs === rhs);
+  }
+
+  /**
+   * **ne** determines if this iterator is not equal to another
+   * using strict equality.
+   */
+  async ne(i: IntoAsyncIter<T>): Promise<boolean> {
+    return !(await this.eq(i));
+  }
+
+  /**
+   * **ge** determines if the elements of this iterator are
+   * lexicographically greater or equal than the elements of
+   * another.
+   */
+  async ge(i: IntoAsyncIter<T>): Promise<boolean> {
+    return (await this.cmp(i)) >= 0;
+  }
+
+  /**
+   * **gt** determines if the elements of this iterator are
+   * lexicographically greater than the elements of another.
+   */
+  async gt(i: IntoAsyncIter<T>): Promise<boolean> {
+    return (await this.cmp(i)) > 0;
+  }
+
+  /**
+   * **le** determines if the elements of this iterator are
+   * lexicographically lower or equal to the elements of another.
+   */
+  async le(i: IntoAsyncIter<T>): Promise<boolean> {
+    return (await this.cmp(i)) <= 0;
+  }
+
+  /**
+   * **lt** determines if the elements of this iterator are
+   * lexicographically lower than the elements of another.
+   */
+  async lt(i: IntoAsyncIter<T>): Promise<boolean> {
+    return (await this.cmp(i)) < 0;
+  }
+
+  /**
+   * **partialCmpBy** lexicographically compares two iterators using the
+   * provided comparator, which returns None for values that can't be
+   * compared. See Iter's **partialCmpBy** for details.
+   * 
+   * @param i The iterable or iterator to compare to.
+   * @param cmp The comparison function.
+   */
+  async partialCmpBy<U>(
+    i: IntoAsyncIter<U>,
+    cmp: (lhs: T, rhs: U) => Awaitable<Option<number>>,
+  ): Promise<Option<number>> {
+    const other = fromIntoAsyncIter(i);
+    const close = async () => {
+      await this.return();
+      await other.return();
+    };
+
+    while (true) {
+      const lhs = await this.next();
+      const rhs = await other.next();
+
+      if (lhs.done) {
+        if (rhs.done) {
+          return Some(0);
+        }
+        await other.return();
+        return Some(-1);
+      }
+      if (rhs.done) {
+        await this.return();
+        return Some(1);
+      }
+
+      let cmpRes: Option<number>;
+      try {
+        cmpRes = await cmp(lhs.value, rhs.value);
+      } catch (e) {
+        await close();
+        throw e;
+      }
+      if (!some(cmpRes) || cmpRes.value !== 0) {
+        await close();
+        return cmpRes;
+      }
+    }
+  }
+
+  /**
+   * **all** tests if every element of the iterator satisfies
+   * the given predicate, short-circuiting on the first element
+   * that doesn't.
+   * 
+   * @param p The predicate to be satisfied
+   */
+  async all(p: (v: T) => Awaitable<boolean>): Promise<boolean> {
+    const res = await this.tryFold(
+      undefined,
+      async (_, v) => ({ success: await p(v), value: undefined }),
+    );
+    return res.success;
+  }
+
+  /**
+   * **any** tests if any element in the iterator satisfies the
+   * predicate, short-circuiting on the first element that does.
+   * 
+   * @param p The predicate to be satisfied
+   */
+  async any(p: (v: T) => Awaitable<boolean>): Promise<boolean> {
+    const res = await this.tryFold(
+      undefined,
+      async (_, v) => ({ success: !(await p(v)), value: undefined }),
+    );
+    return !res.success;
+  }
+
+  /**
+   * **maxBy** resolves to the element with the maximum value with
+   * respect to the specified comparison function, or None if the
+   * iterator is empty.
+   * 
+   * @param cmp The comparison function to use
+   */
+  maxBy(cmp: Comparator<T, T>): Promise<Option<T>> {
+    return this.fold1((max, v) => {
+      if (cmp(v, max) > 0) {
+        return v;
+      }
+      return max;
+    });
+  }
+
+  /**
+   * **max** resolves to the maximum element in the iterator, with
+   * respect to operator `>`, or None if the iterator is empty.
+   */
+  max(): Promise<Option<T>> {
+    return this.maxBy(maxCmp);
+  }
+
+  /**
+   * **maxByKey** resolves to the element that gives the maximum value
+   * from the specified function, or None if the iterator is empty.
+   * 
+   * @param f The function to get the value to compare
+   * @param cmp Optional comparator, if operator `>` doesn't suffice.
+   */
+  async maxByKey<U>(
+    f: (v: T) => Awaitable<U>,
+    cmp: Comparator<U, U> = maxCmp,
+  ): Promise<Option<T>> {
+    const res = await this.map<[U, T]>(async (v) => [await f(v), v]).maxBy((
+      [lhs],
+      [rhs],
+    ) => cmp(lhs, rhs));
+    if (some(res)) {
+      return Some(res.value[1]);
+    }
+    return None;
+  }
+
+  /**
+   * **minBy** resolves to the minimum element in the iterator, with
+   * respect to the specified comparison function, or None if the
+   * iterator is empty.
+   * 
+   * @param cmp The comparison function
+   */
+  minBy(cmp: Comparator<T, T>): Promise<Option<T>> {
+    return this.fold1((min, v) => {
+      if (cmp(v, min) < 0) {
+        return v;
+      }
+      return min;
+    });
+  }
+
+  /**
+   * **min** resolves to the minimum element in the iterator, with
+   * respect to operator `<`, or None if the iterator is empty.
+   */
+  min(): Promise<Option<T>> {
+    return this.minBy(minCmp);
+  }
+
+  /**
+   * **minByKey** resolves to the element that gives the minimum value
+   * from the specified function, or None if the iterator is empty.
+   * 
+   * @param f The function to get the value to compare
+   * @param cmp Optional comparator, if operator `<` doesn't suffice.
+   */
+  async minByKey<U>(
+    f: (v: T) => Awaitable<U>,
+    cmp: Comparator<U, U> = minCmp,
+  ): Promise<Option<T>> {
+    const res = await this.map<[U, T]>(async (v) => [await f(v), v]).minBy((
+      [lhs],
+      [rhs],
+    ) => cmp(lhs, rhs));
+    if (some(res)) {
+      return Some(res.value[1]);
+    }
+    return None;
+  }
+
+  /**
+   * **zip** 'zips up' two iterators into a single iterator of pairs.
+   * If either iterator is done before the other, this iterator will
+   * be done.
+   * 
+   * @param other The iterable to zip with
+   */
+  zip<U>(other: IntoAsyncIter<U>): AsyncIter<[T, U]> {
+    const iter = fromIntoAsyncIter(other);
+    const next = async (): Promise<IteratorResult<[T, U]>> => {
+      const lhs = await this.next();
+      if (lhs.done) {
+        return iter.return();
+      }
+      const rhs = await iter.next();
+      if (rhs.done) {
+        return this.return();
+      }
+      return { value: [lhs.value, rhs.value] };
+    };
+
+    return new AsyncIter(this.adapter({ next }, () => iter.return()));
+  }
+
+  /**
+   * **chain** takes other iterators and creates a new iterator that
+   * will first iterate over the values of this iterator and then
+   * over the values of each of the others, in order.
+   * 
+   * @param others The iterables or iterators to chain after this one
+   */
+  chain(...others: IntoAsyncIter<T>[]): AsyncIter<T> {
+    const iters = [this, ...others.map(fromIntoAsyncIter)];
+    let current = 0;
+    const next = async (): Promise<IteratorResult<T>> => {
+      while (current < iters.length) {
+        const res = await iters[current].next();
+        if (!res.done) {
+          return res;
+        }
+        current++;
+      }
+      return { value: undefined, done: true };
+    };
+    const close = () =>
+      Promise.all(iters.slice(1).map((iter) => iter.return()));
+
+    return new AsyncIter(this.adapter({ next }, close));
+  }
+
+  /**
+   * **flatMap** creates an iterator that applies the given function
+   * to each element and yields the values of the resulted iterators,
+   * in order.
+   * 
+   * @param f The function that maps an element to an iterable or iterator
+   */
+  flatMap<U>(f: (v: T) => Awaitable<IntoAsyncIter<U>>): AsyncIter<U> {
+    let inner: AsyncIter<U> | null = null;
+    const next = async (): Promise<IteratorResult<U>> => {
+      while (true) {
+        if (inner !== null) {
+          const res = await inner.next();
+          if (!res.done) {
+            return res;
+          }
+          inner = null;
+        }
+        const { value, done } = await this.next();
+        if (done) {
+          return { value, done };
+        }
+        inner = fromIntoAsyncIter(await callOrClose(this, f, value));
+      }
+    };
+    const close = () => inner?.return();
+
+    return new AsyncIter(this.adapter({ next }, close));
+  }
+
+  /**
+   * **flatten** creates an iterator that flattens one level of nesting
+   * of an iterator over iterables or iterators.
+   */
+  flatten<U>(this: AsyncIter<IntoAsyncIter<U>>): AsyncIter<U> {
+    return this.flatMap((v) => v);
+  }
+
+  /**
+   * **intersperse** creates an iterator that places a copy of the
+   * separator between each two adjacent elements of this iterator.
+   * 
+   * @param separator The value to place between elements
+   */
+  intersperse(separator: T): AsyncIter<T> {
+    return this.intersperseWith(() => separator);
+  }
+
+  /**
+   * **intersperseWith** creates an iterator that places a value
+   * generated by the given function between each two adjacent elements
+   * of this iterator.
+   * 
+   * @param f The function that generates the separator
+   */
+  intersperseWith(f: () => Awaitable<T>): AsyncIter<T> {
+    let started = false;
+    let pending: IteratorResult<T> | undefined;
+    const next = async (): Promise<IteratorResult<T>> => {
+      if (!started) {
+        started = true;
+        return this.next();
+      }
+      if (pending) {
+        const res = pending;
+        pending = undefined;
+        return res;
+      }
+      const res = await this.next();
+      if (res.done) {
+        return res;
+      }
+      pending = res;
+      return { value: await callOrClose(this, f) };
+    };
+
+    return new AsyncIter(this.adapter({ next }));
+  }
+
+  /**
+   * **collect** collects all the AsyncIter's elements into a collection.
+   * It accepts the same constructors as Iter's **collect**.
+   * 
+   * @example
+   * const lines = await new AsyncIter(readLines(file)).collect(Array);
+   * 
+   * @param constructor The constructor of the collection.
+   * @returns The collection with the iterator elements.
+   */
+  async collect<
+    U extends Constructor<T>,
+    V extends Collection<T, U> = Collection<T, U>,
+  >(
+    constructor: U,
+  ): Promise<V> {
+    const c = collector<T>(constructor);
+
+    return c.finish(
+      await this.fold(c.init(None), (acc, v) => c.extend(acc, v)),
+    ) as V;
+  }
+
+  /**
+   * **unzip** converts an iterator of pairs into a pair of containers.
+   * See Iter's **unzip** for details.
+   * 
+   * @param ca The constructor of the first collection.
+   * @param cb The constructor of the second collection.
+   * @returns A tuple with the resulted collections.
+   */
+  async unzip<
+    A extends Constructor<First<T>>,
+    B extends Constructor<Second<T>>,
+    VA extends Collection<First<T>, A> = Collection<First<T>, A>,
+    VB extends Collection<Second<T>, B> = Collection<Second<T>, B>,
+  >(
+    ca: A,
+    cb: B,
+  ): Promise<[VA, VB]> {
+    const a = collector<First<T>>(ca);
+    const b = collector<Second<T>>(cb);
+
+    const [accA, accB] = await this.fold(
+      [a.init(None), b.init(None)],
+      (acc, v) => {
+        const [first, second] = v as unknown as [First<T>, Second<T>];
+        acc[0] = a.extend(acc[0], first);
+        acc[1] = b.extend(acc[1], second);
+        return acc;
+      },
+    );
+    return [a.finish(accA), b.finish(accB)] as [VA, VB];
+  }
+}
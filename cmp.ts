@@ -0,0 +1,87 @@
+import { None, Option, Some } from "./option.ts";
+
+/**
+ * **Comparator** represents a comparator functions.
+ * If the return value is positive, lhs is greater than rhs.
+ * If it's negative, then lhs is less than rhs.
+ * Else lhs and rhs are equal.
+ */
+export type Comparator<T, U> = (lhs: T, rhs: U) => number;
+/**
+ * PartialComparator is the same as Comparator.
+ * It returns None instead of a number when 2 elements can't
+ * be compared. Such an example would be comparing NaN to
+ * a number - this should return None.
+ */
+export type PartialComparator<T, U> = (lhs: T, rhs: U) => Option<number>;
+
+/**
+ * **maxCmp** is used internally as a comparison function
+ * for Iter methods **max** and **maxByKey**. As **maxBy** 
+ * only swaps values if the return value of the function is
+ * positive (lhs is greater), this function ignores the case
+ * when lhs is less than rhs. Because of this, it is a malformed
+ * comparator otherwise, so it should not be used in any other
+ * context.
+ */
+export const maxCmp = <T>(lhs: T, rhs: T): number => {
+  if (lhs > rhs) {
+    return 1;
+  }
+  return 0;
+};
+
+/**
+ * **minCmp** is the same as **maxCmp**, but returns -1 if lhs
+ * is less than rhs. 
+ */
+export const minCmp = <T>(lhs: T, rhs: T): number => {
+  if (lhs < rhs) {
+    return -1;
+  }
+  return 0;
+};
+
+/**
+ * **totalCmp** compares two values using operators `<` and `>`.
+ * It is the comparator used by the **cmp** method of Iter and
+ * AsyncIter.
+ */
+export const totalCmp = <T>(lhs: T, rhs: T): number => {
+  if (lhs < rhs) {
+    return -1;
+  }
+  if (lhs > rhs) {
+    return 1;
+  }
+  return 0;
+};
+
+/**
+ * **partialCmp** compares two values using operators `<`, `>`,
+ * `<=` and `>=`. It returns None if the values can't be compared,
+ * for example if either of them is NaN.
+ */
+export const partialCmp = <T>(lhs: T, rhs: T): Option<number> => {
+  if (lhs < rhs) {
+    return Some(-1);
+  }
+  if (lhs > rhs) {
+    return Some(1);
+  }
+  if (lhs <= rhs && lhs >= rhs) {
+    return Some(0);
+  }
+  return None;
+};
+
+/**
+ * **cmpNumbers** compares two numbers, returning None if any of them
+ * is NaN, as they can't be compared.
+ */
+export function cmpNumbers(lhs: number, rhs: number): Option<number> {
+  if (Number.isNaN(lhs) || Number.isNaN(rhs)) {
+    return None;
+  }
+  return Some(lhs - rhs);
+}
@@ -1,46 +1,175 @@
-// type TypedConstructor<T> = [T] extends [number] ?
-//   | Uint8ArrayConstructor
-//   | Uint16ArrayConstructor
-//   | Uint32ArrayConstructor
-//   | Uint8ClampedArrayConstructor
-//   | Int8ArrayConstructor
-//   | Int16ArrayConstructor
-//   | Int32ArrayConstructor
-//   : never;
-
-// type BigTypedConstructor<T> = [T] extends [bigint] ?
-//   | BigUint64ArrayConstructor
-//   | BigInt64ArrayConstructor
-//   : never;
+import { Option, some } from "./option.ts";
+
+/**
+ * **Collector** describes how to collect elements into a value of
+ * any type, so that Iter's **collect** and the other methods that
+ * take a constructor can build custom data structures as well.
+ * 
+ * **init** creates the accumulator, given the exact number of elements
+ * that will be collected, if it is known. **extend** adds an element to
+ * the accumulator and returns it, and **finish** turns the accumulator
+ * into the final value. A collector may be used to build any number
+ * of values, so it should keep its state in the accumulator.
+ * 
+ * @example
+ * const sum: Collector<number, number> = {
+ *   init: () => 0,
+ *   extend: (acc, v) => acc + v,
+ *   finish: (acc) => acc,
+ * };
+ * assertStrictEquals(new Iter([1, 2, 3]).collect(sum), 6);
+ * 
+ * @template T the type of the collected elements
+ * @template R the type of the resulted value
+ * @template A the type of the accumulator
+ */
+export interface Collector<T, R, A = R> {
+  init(len: Option<number>): A;
+  extend(acc: A, value: T): A;
+  finish(acc: A): R;
+}
+
+/**
+ * **FromIter** is the key of the static method that builds a class
+ * from an iterable, which makes the class a valid target for Iter's
+ * **collect** and the other methods that take a constructor.
+ * 
+ * @example
+ * interface BagKind extends Kind {
+ *   readonly type: Bag<this["elem"]>;
+ * }
+ * 
+ * class Bag<T> {
+ *   constructor(readonly items: T[] = []) {}
+ * 
+ *   static [FromIter] = <T>(iter: Iterable<T>) => new Bag([...iter]);
+ *   declare static readonly [Kind]: BagKind;
+ * 
+ *   [Extend](iter: Iterable<T>) {
+ *     this.items.push(...iter);
+ *   }
+ * }
+ * 
+ * const bag = new Iter([1, 2]).collect(Bag); // Bag<number>
+ * new Iter([3]).extendInto(bag);
+ * assertEquals(bag.items, [1, 2, 3]);
+ */
+export const FromIter: unique symbol = Symbol("FromIter");
+
+/**
+ * **FromIter** is implemented by the constructors of collections that
+ * can be built from an iterable of elements of type T.
+ * 
+ * @template T the type of the collected elements
+ * @template R the type of the built collection
+ */
+export interface FromIter<T, R> {
+  [FromIter]: (iter: Iterable<T>) => R;
+}
+
+/**
+ * **Kind** is the key of the static property that a generic class
+ * implementing **FromIter** declares to tell the type it builds for
+ * any element type. Without it, the element type of a generic class
+ * can't be inferred, so collecting into it builds, for example,
+ * a `Bag<unknown>` instead of a `Bag<number>`.
+ * 
+ * The property only exists for the type system, so it's declared
+ * with `declare`, and its type is an interface that extends **Kind**,
+ * whose **type** is the built type, using `this["elem"]` as the
+ * element type.
+ * 
+ * @example
+ * interface BagKind extends Kind {
+ *   readonly type: Bag<this["elem"]>;
+ * }
+ * 
+ * class Bag<T> {
+ *   constructor(readonly items: T[] = []) {}
+ * 
+ *   static [FromIter] = <T>(iter: Iterable<T>) => new Bag([...iter]);
+ *   declare static readonly [Kind]: BagKind;
+ * }
+ * 
+ * const bag = new Iter([1, 2]).collect(Bag); // Bag<number>
+ */
+export const Kind: unique symbol = Symbol("Kind");
+
+/**
+ * **Kind** describes a type built from an element type, which is
+ * given as **elem**. See the **Kind** key for an example.
+ */
+export interface Kind {
+  readonly elem: unknown;
+  readonly type: unknown;
+}
+
+type ApplyKind<K extends Kind, T> = (K & { readonly elem: T })["type"];
+
+/**
+ * **Extend** is the key of the method that adds the elements of
+ * an iterable to a collection, which makes the collection a valid
+ * target for Iter's **extendInto**. See **FromIter** for an example.
+ */
+export const Extend: unique symbol = Symbol("Extend");
+
+/**
+ * **Extend** is implemented by collections that can be extended in place
+ * with the elements of an iterable of elements of type T.
+ * 
+ * @template T the type of the added elements
+ */
+export interface Extend<T> {
+  [Extend]: (iter: Iterable<T>) => void;
+}
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Uint8ClampedArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor;
+
+type BigTypedArrayConstructor =
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor;
 
 type IndependentConstructors =
   | StringConstructor
   | ArrayConstructor
   | SetConstructor;
 
-export type Constructor<T> = [T] extends [[unknown, unknown]]
-  ? MapConstructor | IndependentConstructors
-  : IndependentConstructors;
-
-// type TypedCollection<Data, Constructor> = [Data] extends [number]
-//   ? [Constructor] extends [Uint8ArrayConstructor] ? Uint8Array
-//   : [Constructor] extends [Uint16ArrayConstructor] ? Uint16Array
-//   : [Constructor] extends [Uint32ArrayConstructor] ? Uint32Array
-//   : [Constructor] extends [Uint8ClampedArrayConstructor] ? Uint32Array
-//   : [Constructor] extends [Int8ArrayConstructor] ? Int8Array
-//   : [Constructor] extends [Int16ArrayConstructor] ? Int16Array
-//   : [Constructor] extends [Int32ArrayConstructor] ? Int32Array
-//   : never
-//   : never;
-
-// type BigTypedCollection<Data, Constructor> = [Data] extends [bigint]
-//   ? [Constructor] extends [BigUint64ArrayConstructor] ? BigUint64Array
-//   : [Constructor] extends [BigInt64ArrayConstructor] ? BigInt64Array
-//   : never
-//   : never;
+// deno-lint-ignore no-explicit-any
+type AnyCollector<T> = Collector<T, unknown, any>;
+
+export type Constructor<T> =
+  | IndependentConstructors
+  | AnyCollector<T>
+  | FromIter<T, unknown>
+  | ([T] extends [number] ? TypedArrayConstructor : never)
+  | ([T] extends [bigint] ? BigTypedArrayConstructor : never)
+  | ([T] extends [object] ? WeakSetConstructor : never)
+  | ([T] extends [[unknown, unknown]] ? MapConstructor : never)
+  | ([T] extends [[PropertyKey, unknown]] ? ObjectConstructor : never)
+  | ([T] extends [[object, unknown]] ? WeakMapConstructor : never);
+
+type TypedCollection<Data, Constructor> = [Data] extends [number | bigint]
+  ? [Constructor] extends [TypedArrayConstructor | BigTypedArrayConstructor]
+    ? Constructor extends { prototype: infer P } ? P : never
+  : never
+  : never;
 
 type MapCollection<Data, Constructor> = [Data] extends [[infer K, infer V]]
-  ? [Constructor] extends [MapConstructor] ? Map<K, V> : never
+  ? [Constructor] extends [MapConstructor] ? Map<K, V>
+  : [Constructor] extends [ObjectConstructor]
+    ? K extends PropertyKey ? Record<K, V> : never
+  : [Constructor] extends [WeakMapConstructor]
+    ? K extends object ? WeakMap<K, V> : never
+  : never
   : never;
 
 type StringCollection<Data, Constructor> = [Data] extends [string]
@@ -48,40 +177,223 @@ type StringCollection<Data, Constructor> = [Data] extends [string]
   : never;
 
 export type Collection<Data, Constructor> = [Constructor] extends
-  [ArrayConstructor] ? Data[]
+  [AnyCollector<Data>]
+  ? Constructor extends Collector<Data, infer R, infer _> ? R : never
+  : [Constructor] extends [{ readonly [Kind]: infer K extends Kind }]
+    ? ApplyKind<K, Data>
+  : [Constructor] extends [FromIter<Data, infer R>] ? R
+  : [Constructor] extends [ArrayConstructor] ? Data[]
   : [Constructor] extends [SetConstructor] ? Set<Data>
-  : 
+  : [Constructor] extends [WeakSetConstructor]
+    ? Data extends object ? WeakSet<Data> : never
+  :
     | StringCollection<Data, Constructor>
-    | MapCollection<Data, Constructor>;
+    | MapCollection<Data, Constructor>
+    | TypedCollection<Data, Constructor>;
+
+/**
+ * **Extendable** is the type of the collections that Iter's **extendInto**
+ * can add elements of type T to.
+ */
+export type Extendable<T> =
+  | T[]
+  | Set<T>
+  | Extend<T>
+  | ([T] extends [object] ? WeakSet<T & object> : never)
+  | ([T] extends [[infer K, infer V]]
+    ? Map<K, V> | (K extends object ? WeakMap<K, V> : never)
+    : never);
+
+export type First<T> = [T] extends [[infer K, unknown]] ? K : never;
+export type Second<T> = [T] extends [[unknown, infer K]] ? K : never;
+
+type Indexed<T> = {
+  [index: number]: T;
+  length: number;
+  slice(begin: number, end: number): unknown;
+};
 
-type Extender<Data, Collection> = (c: Collection, d: Data) => Collection;
+/**
+ * **indexed** creates a collector that writes the elements at consecutive
+ * indices. If the number of elements is known, the collection is
+ * preallocated, else the elements are pushed to an array, which is
+ * converted at the end.
+ */
+const indexed = <T>(
+  preallocate: (len: number) => Indexed<T>,
+  convert: (items: T[]) => unknown,
+): Collector<T, unknown, { items: Indexed<T>; index: number }> => ({
+  init: (len) => ({
+    items: some(len) ? preallocate(len.value) : [],
+    index: 0,
+  }),
+  extend: (acc, v) => (acc.items[acc.index++] = v, acc),
+  finish: ({ items, index }) => {
+    if (Array.isArray(items)) {
+      // The size hint can't be trusted to be exact
+      items.length = index;
+      return convert(items);
+    }
+    return index === items.length ? items : items.slice(0, index);
+  },
+});
 
-export default function <
-  T,
->(
+const typedArrays: unknown[] = [
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+];
+
+const isCollector = <T>(
+  constructor: Constructor<T>,
+): constructor is AnyCollector<T> => {
+  if (typeof constructor !== "object" || constructor === null) {
+    return false;
+  }
+  const c = constructor as Partial<AnyCollector<T>>;
+  return typeof c.init === "function" && typeof c.extend === "function" &&
+    typeof c.finish === "function";
+};
+
+const isFromIter = <T>(
+  constructor: Constructor<T>,
+): constructor is FromIter<T, unknown> =>
+  typeof (constructor as Partial<FromIter<T, unknown>>)[FromIter] ===
+    "function";
+
+// deno-lint-ignore no-explicit-any
+const pair = <T>(v: T) => v as any as [any, unknown];
+
+/**
+ * **collector** returns the collector for the given constructor.
+ * Built-in constructors are turned into the equivalent collectors,
+ * and custom collectors are returned as they are.
+ */
+export default function collector<T>(
   constructor: Constructor<T>,
-): [
-  Collection<T, typeof constructor>,
-  Extender<T, Collection<T, typeof constructor>>,
-] {
-  type Collect = Collection<T, typeof constructor>;
-  // deno-lint-ignore no-explicit-any
-  const collection = new (constructor as any)() as Collect;
-  let extender: Extender<T, Collect>;
-  if (collection instanceof Map) {
-    // deno-lint-ignore no-explicit-any
-    extender = (c, v) => ((c as any).set((v as any)[0], (v as any)[1]), c);
-  } else if (collection instanceof Set) {
-    // deno-lint-ignore no-explicit-any
-    extender = (c, v) => ((c as any).add(v), c);
-  } else if (collection instanceof String) {
-    // deno-lint-ignore no-explicit-any
-    extender = (c, v) => c as any + v as any;
-  } else if (Array.isArray(collection)) {
-    // deno-lint-ignore no-explicit-any
-    extender = (c, v) => ((c as any).push(v), c);
-  } else {
-    throw new TypeError("Iter: Invalid type to collect into");
+): AnyCollector<T> {
+  if (isCollector(constructor)) {
+    return constructor;
+  }
+  if (isFromIter(constructor)) {
+    return {
+      init: () => [],
+      extend: (acc: T[], v) => (acc.push(v), acc),
+      finish: (acc) => constructor[FromIter](acc),
+    };
+  }
+  switch (constructor as unknown) {
+    case Array:
+      return indexed<T>((len) => new Array(len), (items) => items);
+    case String:
+      return joining();
+    case Set:
+    case WeakSet:
+      return {
+        init: () => new (constructor as SetConstructor)(),
+        extend: (acc: Set<T>, v) => acc.add(v),
+        finish: (acc) => acc,
+      };
+    case Map:
+    case WeakMap:
+      return {
+        init: () => new (constructor as MapConstructor)(),
+        extend: (acc: Map<unknown, unknown>, v) => acc.set(...pair(v)),
+        finish: (acc) => acc,
+      };
+    case Object:
+      return {
+        init: () => ({}),
+        extend: (acc: Record<PropertyKey, unknown>, v) => {
+          const [key, value] = pair(v);
+          acc[key] = value;
+          return acc;
+        },
+        finish: (acc) => acc,
+      };
+  }
+  if (typedArrays.includes(constructor)) {
+    const Typed = constructor as unknown as {
+      new (len: number): Indexed<T>;
+      from(items: T[]): unknown;
+    };
+    return indexed<T>((len) => new Typed(len), (items) => Typed.from(items));
+  }
+  throw new TypeError("Iter: Invalid type to collect into");
+}
+
+/**
+ * **JoinOptions** configures the strings built by **joining**.
+ * 
+ * **separator** is placed between each two adjacent elements, except
+ * the last two, which are separated by **lastSeparator**, if given.
+ * **prefix** and **suffix** are placed at the start and at the end,
+ * even if there are no elements.
+ */
+export interface JoinOptions {
+  separator?: string;
+  lastSeparator?: string;
+  prefix?: string;
+  suffix?: string;
+}
+
+/**
+ * **joining** creates a collector that joins the elements into a string,
+ * converting them with the given function. The parts are buffered and
+ * joined at the end, so large strings are built in linear time.
+ * 
+ * @example
+ * const list = joining({ separator: ", ", lastSeparator: " and " });
+ * assertStrictEquals(new Iter(["a", "b", "c"]).collect(list), "a, b and c");
+ * 
+ * @param options The separators, prefix and suffix to use
+ * @param toString The function that converts the elements, String by default
+ */
+export function joining<T>(
+  options: JoinOptions = {},
+  toString: (v: T) => string = String,
+): Collector<T, string, string[]> {
+  const { separator = "", prefix = "", suffix = "" } = options;
+  const { lastSeparator = separator } = options;
+  return {
+    init: () => [],
+    extend: (acc, v) => (acc.push(toString(v)), acc),
+    finish: (acc) => {
+      const last = acc.length > 1 ? lastSeparator + acc.pop() : "";
+      return prefix + acc.join(separator) + last + suffix;
+    },
+  };
+}
+
+/**
+ * **isExtend** checks if the collection implements **Extend**.
+ */
+export const isExtend = <T>(
+  target: Extendable<T>,
+): target is Extend<T> =>
+  typeof (target as Partial<Extend<T>>)[Extend] === "function";
+
+/**
+ * **appender** returns a function that adds an element to the given
+ * built-in collection.
+ */
+export function appender<T>(target: Extendable<T>): (value: T) => void {
+  if (Array.isArray(target)) {
+    return (v) => target.push(v);
+  }
+  if (target instanceof Set || target instanceof WeakSet) {
+    return (v) => target.add(v as T & object);
+  }
+  if (target instanceof Map || target instanceof WeakMap) {
+    return (v) => target.set(...pair(v));
   }
-  return [collection, extender];
+  throw new TypeError("Iter: Invalid type to extend");
 }
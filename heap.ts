@@ -0,0 +1,93 @@
+import { Comparator } from "./cmp.ts";
+import { None, Option, Some } from "./option.ts";
+
+/**
+ * **Heap** is a binary heap, which keeps its smallest element
+ * with respect to the given comparator at the top. It is used
+ * internally by the ordering methods of Iter, such as **kSmallest**
+ * and **mergeSorted**.
+ */
+export default class Heap<T> {
+  private readonly items: T[] = [];
+  private readonly cmp: Comparator<T, T>;
+
+  /**
+   * Creates an empty heap.
+   * 
+   * @param cmp The comparator that orders the elements
+   */
+  constructor(cmp: Comparator<T, T>) {
+    this.cmp = cmp;
+  }
+
+  /**
+   * @returns the number of elements in the heap
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * **peek** returns the smallest element, if any, without removing it.
+   */
+  peek(): Option<T> {
+    return this.items.length !== 0 ? Some(this.items[0]) : None;
+  }
+
+  /**
+   * **push** adds an element to the heap.
+   * 
+   * @param value The element to add
+   */
+  push(value: T) {
+    const { items } = this;
+    let i = items.push(value) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.cmp(items[i], items[parent]) >= 0) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  /**
+   * **pop** removes the smallest element and returns it, if any.
+   */
+  pop(): Option<T> {
+    const { items } = this;
+    if (items.length === 0) {
+      return None;
+    }
+    const top = items[0];
+    const last = items.pop() as T;
+    if (items.length !== 0) {
+      items[0] = last;
+      this.siftDown();
+    }
+    return Some(top);
+  }
+
+  private siftDown() {
+    const { items } = this;
+    for (let i = 0;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < items.length && this.cmp(items[left], items[smallest]) < 0) {
+        smallest = left;
+      }
+      if (
+        right < items.length && this.cmp(items[right], items[smallest]) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === i) {
+        return;
+      }
+      [items[i], items[smallest]] = [items[smallest], items[i]];
+      i = smallest;
+    }
+  }
+}
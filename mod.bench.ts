@@ -1,11 +1,12 @@
 import { bench, runBenchmarks } from "https://deno.land/std/testing/bench.ts";
 
 import Iter from "./mod.ts";
+import { toNullable } from "./option.ts";
 import { parseIntegral, range } from "./util.ts";
 
 const rand = (v: number) => Math.random() * v % 100 | 0;
 
-const RUNS = parseIntegral(Deno.args[0]) ?? (() => {
+const RUNS = toNullable(parseIntegral(Deno.args[0])) ?? (() => {
   throw new Error("Run count unspecified or invalid");
 })();
 const ONLY = new RegExp(Deno.args[1]);
@@ -2,13 +2,22 @@ import {
   assert,
   assertEquals,
   assertStrictEquals,
+  assertThrows,
 } from "https://deno.land/std/testing/asserts.ts";
 import { add } from "https://deno.land/x/fae@v1.0.0/mod.ts";
 
-import Iter from "./mod.ts";
-import { none, some } from "./option.ts";
-import { Result } from "./result.ts";
-import { cmpNumbers, parseIntegral, range } from "./util.ts";
+import Iter, {
+  Collector,
+  DoubleEndedIter,
+  Extend,
+  FromIter,
+  joining,
+  Kind,
+} from "./mod.ts";
+import { None, none, okOr, Option, Some, some } from "./option.ts";
+import { Err, Ok, Result } from "./result.ts";
+import { cmpNumbers, parseIntegral, range, repeat } from "./util.ts";
+import { closeCounter } from "./test_util.ts";
 
 Deno.test("is iterable", () => {
   const expect = [1, 2, 3, 4];
@@ -23,6 +32,90 @@ Deno.test("is consumable", () => {
   assert(done);
 });
 
+Deno.test("sizeHint", () => {
+  assertEquals(new Iter([1, 2, 3]).sizeHint(), [3, 3]);
+  assertEquals(new Iter("a😀b").sizeHint(), [3, 3]);
+  assertEquals(new Iter(new Set([1, 2])).sizeHint(), [2, 2]);
+  assertEquals(new Iter(new Map([[1, 2]])).sizeHint(), [1, 1]);
+  assertEquals(new Iter(range(2, 10, 3)).sizeHint(), [3, 3]);
+  assertEquals(new Iter(range()).sizeHint(), [0, null]);
+  {
+    const iter = new Iter([1, 2, 3]);
+    iter.next();
+    assertEquals(iter.sizeHint(), [2, 2]);
+  }
+});
+
+Deno.test("collections changed after wrapping", () => {
+  const arr = [1];
+  const fromArr = new Iter(arr);
+  arr.push(2);
+  assertEquals(fromArr.sizeHint(), [2, 2]);
+  assertEquals([...fromArr], [1, 2]);
+  arr.push(3);
+  assertEquals([...fromArr], []);
+
+  const set = new Set([1]);
+  const fromSet = new Iter(set);
+  set.add(2);
+  assertEquals(fromSet.count(), 2);
+
+  const map = new Map([[1, "a"]]);
+  const fromMap = new Iter(map);
+  map.set(2, "b");
+  assertEquals(fromMap.collect(Array), [[1, "a"], [2, "b"]]);
+});
+
+Deno.test("sizeHint of adapters", () => {
+  const arr = [1, 2, 3, 4, 5];
+  assertEquals(new Iter(arr).map(add(1)).sizeHint(), [5, 5]);
+  assertEquals(new Iter(arr).enumerate().sizeHint(), [5, 5]);
+  assertEquals(new Iter(arr).filter((n) => n > 2).sizeHint(), [0, 5]);
+  assertEquals(new Iter(arr).take(2).sizeHint(), [2, 2]);
+  assertEquals(new Iter(range()).take(2).sizeHint(), [0, 2]);
+  assertEquals(new Iter(arr).skip(2).sizeHint(), [3, 3]);
+  assertEquals(new Iter(arr).skip(7).sizeHint(), [0, 0]);
+  assertEquals(new Iter(arr).stepBy(2).sizeHint(), [3, 3]);
+  assertEquals(new Iter(arr).zip(range()).sizeHint(), [0, 5]);
+  assertEquals(new Iter(arr).zip([1, 2]).sizeHint(), [2, 2]);
+  assertEquals(new Iter(arr).chain([1, 2]).sizeHint(), [7, 7]);
+  assertEquals(new Iter(arr).chain(range()).sizeHint(), [5, null]);
+  assertEquals(new Iter(arr).intersperse(0).sizeHint(), [9, 9]);
+  {
+    const iter = new Iter(arr).peekable();
+    iter.peek();
+    assertEquals(iter.sizeHint(), [5, 5]);
+  }
+});
+
+Deno.test("sizeHint of infinite iterators", () => {
+  const zeros = () =>
+    new Iter({
+      next: () => ({ value: 0 }),
+      sizeHint: (): [number, null] => [Infinity, null],
+    });
+  assertEquals(zeros().sizeHint(), [Infinity, null]);
+  assertEquals(repeat(0).sizeHint(), [Infinity, null]);
+  assertEquals(zeros().map(add(1)).sizeHint(), [Infinity, null]);
+  assertEquals(zeros().skip(2).sizeHint(), [Infinity, null]);
+  assertEquals(zeros().stepBy(2).sizeHint(), [Infinity, null]);
+  assertEquals(zeros().filter((n) => n > 0).sizeHint(), [0, null]);
+  assertEquals(zeros().take(2).sizeHint(), [2, 2]);
+  assertEquals(new Iter([1, 2]).zip(zeros()).sizeHint(), [2, 2]);
+  assertEquals(new Iter([1, 2]).chain(zeros()).sizeHint(), [Infinity, null]);
+  assertStrictEquals(zeros().len(), None);
+  assertThrows(
+    () => new Iter([1]).cartesianProduct(zeros()).next(),
+    RangeError,
+    "Iter: Can't buffer an infinite iterator for cartesianProduct",
+  );
+});
+
+Deno.test("len", () => {
+  assertEquals(new Iter([1, 2, 3]).map(add(1)).len(), Some(3));
+  assertStrictEquals(new Iter([1, 2, 3]).filter((n) => n > 1).len(), None);
+});
+
 Deno.test("enumerate", () => {
   const arr = [1, 2, 3, 4];
   const got = [...new Iter(arr).enumerate()];
@@ -39,13 +132,58 @@ Deno.test("fold", () => {
   );
 });
 
+Deno.test("count", () => {
+  {
+    let calls = 0;
+    const iter = new Iter([1, 2, 3]).map((n) => (calls++, n));
+    assertStrictEquals(iter.count(), 3);
+    assertStrictEquals(calls, 0, "shall not iterate when the size is known");
+    assert(iter.next().done, "iterator shall be consumed");
+  }
+  {
+    const iter = new Iter([1, 2, 3]).peekable();
+    iter.peek();
+    assertStrictEquals(iter.count(), 3);
+    assert(iter.next().done, "iterator shall be consumed");
+  }
+  assertStrictEquals(new Iter([1, 2, 3, 4]).filter((n) => n > 1).count(), 3);
+});
+
+Deno.test("last", () => {
+  {
+    let calls = 0;
+    const source = {
+      next: (): IteratorResult<number> => (calls++, { value: 1 }),
+      nextBack: (): IteratorResult<number> => ({ value: 3 }),
+      sizeHint: (): [number, number] => [3, 3],
+    };
+    const iter = new Iter(source);
+    assertEquals(iter.last(), Some(3));
+    assertStrictEquals(calls, 0, "shall take the last element from the back");
+    assert(iter.next().done, "iterator shall be consumed");
+  }
+  {
+    const iter = new DoubleEndedIter([1, 2, 3]).rev().peekable();
+    iter.peek();
+    assertEquals(iter.last(), Some(1));
+    assert(iter.next().done, "iterator shall be consumed");
+  }
+  {
+    const iter = new DoubleEndedIter([1]).rev().peekable();
+    iter.peek();
+    assertEquals(iter.last(), Some(1), "shall return the peeked element");
+  }
+  assertEquals(new Iter([1, 2, 3]).map(add(1)).last(), Some(4));
+  assertStrictEquals(new Iter([]).last(), None);
+});
+
 Deno.test("tryFold", () => {
   const fn = (acc: number, v: string): Result<number, string> => {
     const num = parseIntegral(v);
     if (none(num)) {
       return { success: false, value: v };
     }
-    return { success: true, value: acc + num };
+    return { success: true, value: acc + num.value };
   };
 
   assertEquals(new Iter(["1", "2", "3", "4"]).tryFold(0, fn), {
@@ -72,6 +210,58 @@ Deno.test("map", () => {
   assertEquals([...new Iter([1, 2, 3, 4]).map(add(1))], [2, 3, 4, 5]);
 });
 
+Deno.test("take", () => {
+  assertEquals([...new Iter(range()).take(3)], [0, 1, 2]);
+  assertEquals([...new Iter([1, 2]).take(5)], [1, 2]);
+  {
+    const iter = new Iter([1, 2, 3, 4]);
+    assertEquals([...iter.take(2)], [1, 2]);
+    const next = iter.next();
+    assert(!next.done && next.value === 3, "shall not advance past n");
+  }
+});
+
+Deno.test("skip", () => {
+  assertEquals([...new Iter([1, 2, 3, 4]).skip(2)], [3, 4]);
+  assertEquals([...new Iter([1, 2]).skip(5)], []);
+  assertEquals([...new Iter(range()).skip(2).take(2)], [2, 3]);
+});
+
+Deno.test("take and skip check the number of elements", () => {
+  for (const n of [-1, 1.5, NaN]) {
+    assertThrows(
+      () => new Iter([1, 2]).take(n),
+      RangeError,
+      `Iter: Invalid number of elements ${n}, must be non-negative`,
+    );
+    assertThrows(() => new Iter([1, 2]).skip(n), RangeError);
+    assertThrows(() => new DoubleEndedIter([1, 2]).take(n), RangeError);
+    assertThrows(() => new DoubleEndedIter([1, 2]).skip(n), RangeError);
+  }
+});
+
+Deno.test("takeWhile", () => {
+  assertEquals([...new Iter([1, 2, 5, 1]).takeWhile((n) => n < 3)], [1, 2]);
+  assertEquals([...new Iter(range()).takeWhile((n) => n < 4)], [0, 1, 2, 3]);
+});
+
+Deno.test("skipWhile", () => {
+  assertEquals([...new Iter([1, 2, 5, 1]).skipWhile((n) => n < 3)], [5, 1]);
+  assertEquals([...new Iter([1, 2]).skipWhile((n) => n < 3)], []);
+});
+
+Deno.test("mapWhile", () => {
+  assertEquals([
+    ...new Iter(["1", "2", "a", "3"]).mapWhile(parseIntegral),
+  ], [1, 2]);
+});
+
+Deno.test("stepBy", () => {
+  assertEquals([...new Iter([0, 1, 2, 3, 4, 5, 6]).stepBy(3)], [0, 3, 6]);
+  assertEquals([...new Iter(range()).stepBy(2).take(3)], [0, 2, 4]);
+  assertThrows(() => new Iter([1]).stepBy(0), RangeError);
+});
+
 Deno.test("cmpBy", () => {
   const lhs = ["foo", "bar", "baz"];
   const cmp = (lhs: string, rhs: string) => lhs.length - rhs.length;
@@ -91,12 +281,12 @@ Deno.test("partialCmpBy", () => {
   const lhs = [1.4, 2.6, 3.7, 7.8];
   {
     const res = new Iter(lhs).partialCmpBy([1.4, 2.6, 3.7, 7.8], cmpNumbers);
-    assert(some(res) && res === 0);
+    assert(some(res) && res.value === 0);
   }
-  assert(new Iter(lhs).partialCmpBy([1.4, 2.6, NaN, 7.8], cmpNumbers) === null);
+  assert(none(new Iter(lhs).partialCmpBy([1.4, 2.6, NaN, 7.8], cmpNumbers)));
   {
     const res = new Iter(lhs).partialCmpBy([1.4, 2.5, NaN, 7.8], cmpNumbers);
-    assert(some(res) && res > 0);
+    assert(some(res) && res.value > 0);
   }
 });
 
@@ -135,21 +325,287 @@ Deno.test("any", () => {
 });
 
 Deno.test("max", () => {
-  assertStrictEquals(new Iter([1, 2, 3, 4]).max(), 4);
-  assertStrictEquals(new Iter([]).max(), null);
+  assertEquals(new Iter([1, 2, 3, 4]).max(), Some(4));
+  assertStrictEquals(new Iter([]).max(), None);
 });
 
 Deno.test("maxByKey", () => {
-  assertStrictEquals(new Iter([1, 2, 3, 4]).maxByKey((v) => -v), 1);
+  assertEquals(new Iter([1, 2, 3, 4]).maxByKey((v) => -v), Some(1));
 });
 
 Deno.test("min", () => {
-  assertStrictEquals(new Iter([1, 2, 3, 4]).min(), 1);
-  assertStrictEquals(new Iter([]).min(), null);
+  assertEquals(new Iter([1, 2, 3, 4]).min(), Some(1));
+  assertStrictEquals(new Iter([]).min(), None);
 });
 
 Deno.test("minByKey", () => {
-  assertStrictEquals(new Iter([1, 2, 3, 4]).minByKey((v) => -v), 4);
+  assertEquals(new Iter([1, 2, 3, 4]).minByKey((v) => -v), Some(4));
+});
+
+Deno.test("sum and product", () => {
+  assertStrictEquals(new Iter([1, 2, 3, 4]).sum(), 10);
+  assertStrictEquals(new Iter([] as number[]).sum(), 0);
+  assertStrictEquals(new Iter([1, 2]).sum(10), 13);
+  assertStrictEquals(new Iter([1n, 2n]).sum(0n), 3n);
+  assertStrictEquals(new Iter([1, 2, 3, 4]).product(), 24);
+  assertStrictEquals(new Iter([] as number[]).product(), 1);
+  assertStrictEquals(new Iter([] as bigint[]).product(1n), 1n);
+  assertStrictEquals(new Iter([2n, 3n]).product(2n), 12n);
+  assertStrictEquals(new Iter([1n, 2n]).sum(), 3n);
+  assertStrictEquals(new Iter([2n, 3n]).product(), 6n);
+  assertStrictEquals(new Iter([] as bigint[]).sum(), 0);
+  assertStrictEquals(new Iter([0.5]).sum(), 0.5);
+});
+
+Deno.test("checkedSum and checkedProduct", () => {
+  assertEquals(new Iter([1, 2, 3]).checkedSum(), Ok(6));
+  assertEquals(new Iter([2n, 3n]).checkedProduct(1n), Ok(6n));
+  assertEquals(new Iter([2n, 3n]).checkedSum(), Ok(5n));
+  assertEquals(new Iter([2n, 3n]).checkedProduct(), Ok(6n));
+  const bigSum: Result<bigint, RangeError> = new Iter([1n]).checkedSum();
+  assertEquals(bigSum, Ok(1n));
+
+  const { counter, values } = closeCounter();
+  const sum = new Iter(values(Number.MAX_SAFE_INTEGER, 1, -1)).checkedSum();
+  assert(!sum.success && sum.value instanceof RangeError);
+  assertStrictEquals(counter.closed, 1, "shall stop at the overflow");
+
+  assertStrictEquals(new Iter([1, NaN]).checkedSum().success, false);
+  const big = 2n ** 53n;
+  assertStrictEquals(new Iter([big]).checkedProduct(1n).success, false);
+  assertEquals(new Iter([big, -1n]).checkedSum(0n).success, false);
+});
+
+Deno.test("fsum", () => {
+  const tenths = new Array(10).fill(0.1);
+  assertStrictEquals(new Iter(tenths).fsum(), 1);
+  assertStrictEquals(new Iter([1e100, 1, -1e100]).fsum(), 1);
+  assertStrictEquals(new Iter([] as number[]).fsum(), 0);
+  assertStrictEquals(new Iter([Infinity, 1]).fsum(), Infinity);
+  assert(Number.isNaN(new Iter([Infinity, -Infinity]).fsum()));
+});
+
+Deno.test("mean and variance", () => {
+  assertEquals(new Iter([1, 2, 3, 4]).mean(), Some(2.5));
+  assertEquals(new Iter([1n, 2n]).mean(), Some(1.5));
+  assertStrictEquals(new Iter([] as number[]).mean(), None);
+  assertEquals(new Iter([2, 4, 4, 4, 5, 5, 7, 9]).variance(), Some(4));
+  assertEquals(new Iter([3n]).variance(), Some(0));
+  assertStrictEquals(new Iter([] as bigint[]).variance(), None);
+});
+
+Deno.test("minMax", () => {
+  assertEquals(new Iter([3, 1, 4, 2]).minMax(), Some([1, 4]));
+  assertEquals(new Iter([5]).minMax(), Some([5, 5]));
+  assertEquals(new Iter([2n, -1n, 3n]).minMax(), Some([-1n, 3n]));
+  assertStrictEquals(new Iter([] as number[]).minMax(), None);
+  assertStrictEquals(new Iter([NaN]).minMax(), None);
+  assertEquals(
+    new Iter([0, -Infinity, Infinity]).minMax(),
+    Some([-Infinity, Infinity]),
+  );
+  assertEquals(
+    new Iter([-5n, 10n ** 20n, 7n]).minMax(),
+    Some([-5n, 10n ** 20n]),
+  );
+
+  const { counter, values } = closeCounter();
+  assertStrictEquals(new Iter(values(1, NaN, 2)).minMax(), None);
+  assertStrictEquals(counter.closed, 1, "shall stop at NaN");
+});
+
+Deno.test("isSorted", () => {
+  assert(new Iter([1, 2, 2, 3]).isSorted());
+  assert(new Iter([]).isSorted());
+  assert(!new Iter([1, 3, 2]).isSorted());
+  assert(!new Iter([1, NaN, 3]).isSorted());
+  assert(new Iter(["a", "b"]).isSorted());
+
+  const { counter, values } = closeCounter();
+  assert(!new Iter(values(2, 1, 3)).isSorted());
+  assertStrictEquals(counter.closed, 1, "shall stop at the first disorder");
+});
+
+Deno.test("isSortedBy and isSortedByKey", () => {
+  assert(new Iter([3, 2, 1]).isSortedBy((lhs, rhs) => rhs - lhs));
+  assert(!new Iter([1, 2]).isSortedBy((lhs, rhs) => rhs - lhs));
+  assert(new Iter([1, 2]).isSortedBy(cmpNumbers));
+  assert(!new Iter([1, NaN]).isSortedBy(cmpNumbers));
+  assert(new Iter(["c", "bb", "aaa"]).isSortedByKey((s) => s.length));
+  assert(!new Iter(["aa", "b"]).isSortedByKey((s) => s.length));
+});
+
+Deno.test("sorted", () => {
+  const people = [["bob", 3], ["ann", 1], ["cid", 3], ["dan", 2]] as const;
+  const byAge = new Iter(people).sorted(([, a], [, b]) => a - b);
+  assertEquals(byAge.sizeHint(), [4, 4]);
+  assertEquals(byAge.next().value, ["ann", 1]);
+  assertEquals(byAge.nextBack().value, ["cid", 3]);
+  assertEquals(byAge.sizeHint(), [2, 2]);
+  assertEquals([...byAge], [["dan", 2], ["bob", 3]]);
+  assertEquals([...new Iter("bca").sorted().rev()], ["c", "b", "a"]);
+
+  let called = false;
+  new Iter([2, 1]).map((v) => (called = true, v)).sorted();
+  assert(!called, "shall not consume the iterator before iteration");
+});
+
+Deno.test("kSmallest and kLargest", () => {
+  const nums = [5, 1, 4, 1, 3, 9, 2];
+  assertEquals([...new Iter(nums).kSmallest(3)], [1, 1, 2]);
+  assertEquals([...new Iter(nums).kLargest(2)], [9, 5]);
+  assertEquals([...new Iter(nums).kSmallest(10)], [1, 1, 2, 3, 4, 5, 9]);
+  assertEquals([...new Iter(nums).kSmallest(0)], []);
+  const words = new Iter(["ccc", "a", "bb"]).kSmallest(
+    2,
+    (lhs, rhs) => rhs.length - lhs.length,
+  );
+  assertEquals([...words], ["ccc", "bb"]);
+  assertThrows(() => new Iter(nums).kSmallest(-1), RangeError);
+  assertThrows(() => new Iter(nums).kLargest(1.5), RangeError);
+});
+
+Deno.test("mergeSorted and mergeSortedBy", () => {
+  const merged = new Iter([1, 4, 7]).mergeSorted([2, 5], new Set([0, 3, 8]));
+  assertEquals(merged.sizeHint(), [8, 8]);
+  assertEquals([...merged], [0, 1, 2, 3, 4, 5, 7, 8]);
+
+  const desc = new Iter([9, 3]).mergeSortedBy((a, b) => b - a, [4, 1]);
+  assertEquals([...desc], [9, 4, 3, 1]);
+  assertEquals([...new Iter([2, 1]).mergeSorted()], [2, 1]);
+
+  const pairs = new Iter<[number, string]>([[1, "a"], [2, "a"]]).mergeSortedBy(
+    ([a], [b]) => a - b,
+    [[1, "b"], [2, "b"]],
+  );
+  assertEquals(
+    pairs.map(([, s]) => s).collect(String),
+    "abab",
+    "equal elements shall keep the order of their iterators",
+  );
+
+  const { counter, values } = closeCounter();
+  const lazy = new Iter(values(1, 2)).mergeSorted(values(0, 3));
+  assertEquals(lazy.take(2).collect(Array), [0, 1]);
+  assertStrictEquals(counter.closed, 2, "shall close all the iterators");
+});
+
+Deno.test("roundRobin, interleave and interleaveShortest", () => {
+  const events: Iter<number | string | boolean> = Iter.roundRobin(
+    [1, 2, 3],
+    ["a"],
+    new Set([true, false]),
+  );
+  assertEquals(events.sizeHint(), [6, 6]);
+  assertEquals([...events], [1, "a", true, 2, false, 3]);
+  const chars: Iter<string> = Iter.roundRobin("ab", ["c"]);
+  assertEquals([...chars], ["a", "c", "b"]);
+  assertEquals([...Iter.roundRobin()], []);
+  assertEquals(
+    [...Iter.roundRobin(range(), range(10, 12)).take(6)],
+    [0, 10, 1, 11, 2, 3],
+  );
+
+  assertEquals([...new Iter([1, 2, 3]).interleave([10])], [1, 10, 2, 3]);
+  assertEquals([...new Iter([1]).interleave([10, 20])], [1, 10, 20]);
+
+  const shortest = new Iter([1, 2, 3]).interleaveShortest([10]);
+  assertEquals(shortest.sizeHint(), [3, 3]);
+  assertEquals([...shortest], [1, 10, 2]);
+  assertEquals(new Iter([1]).interleaveShortest([10, 20]).sizeHint(), [2, 2]);
+  assertEquals([...new Iter([1]).interleaveShortest([10, 20])], [1, 10]);
+  assertEquals(
+    new Iter([1, 2]).interleaveShortest(repeat(0)).sizeHint(),
+    [4, 4],
+  );
+  {
+    const endless = repeat(1).interleaveShortest(repeat(2));
+    assertEquals(endless.sizeHint(), [Infinity, null]);
+    assertStrictEquals(endless.len(), None);
+    assertThrows(
+      () => new Iter([0]).cartesianProduct(endless).next(),
+      RangeError,
+      "Iter: Can't buffer an infinite iterator for cartesianProduct",
+    );
+  }
+
+  const { counter, values } = closeCounter();
+  assertEquals([...new Iter([1]).interleaveShortest(values(10, 20))], [1, 10]);
+  assertStrictEquals(counter.closed, 1, "shall close the other iterator");
+});
+
+Deno.test("mergeBy", () => {
+  const byPriority = new Iter([{ p: 3 }, { p: 1 }])
+    .mergeBy([{ p: 2 }, { p: 0 }], (lhs, rhs) => lhs.p >= rhs.p);
+  assertEquals(byPriority.sizeHint(), [4, 4]);
+  assertEquals(byPriority.next().value, { p: 3 });
+  assertEquals(byPriority.sizeHint(), [3, 3]);
+  assertEquals([...byPriority].map(({ p }) => p), [2, 1, 0]);
+  assertEquals(
+    [...new Iter([1, 4]).mergeBy([2, 3, 5], (a, b) => a <= b)],
+    [1, 2, 3, 4, 5],
+  );
+  assertEquals([...new Iter<number>([]).mergeBy([1], () => true)], [1]);
+});
+
+Deno.test("unique and uniqueBy", () => {
+  const iter = new Iter([1, 2, NaN, 1, 3, NaN, 2, 0, -0]).unique();
+  assertEquals(iter.sizeHint(), [1, 9]);
+  assertEquals([...iter], [1, 2, NaN, 3, 0]);
+  const words = new Iter(["apple", "avocado", "banana", "blueberry"]);
+  assertEquals([...words.uniqueBy((w) => w[0])], ["apple", "banana"]);
+  assertEquals(new Iter([]).unique().sizeHint(), [0, 0]);
+  {
+    const iter = new Iter([1, 1]).unique();
+    iter.next();
+    assertEquals(iter.sizeHint(), [0, 1], "the rest may be duplicates");
+    assertStrictEquals(iter.count(), 0);
+  }
+
+  let calls = 0;
+  const lazy = new Iter(range()).uniqueBy((n) => (calls++, n % 3));
+  assertEquals(lazy.take(3).collect(Array), [0, 1, 2]);
+  assertStrictEquals(calls, 3, "shall be lazy");
+});
+
+Deno.test("dedup and dedupBy", () => {
+  assertEquals([...new Iter([1, 1, 2, 1, 1, 1]).dedup()], [1, 2, 1]);
+  assertEquals([...new Iter([NaN, NaN, 1]).dedup()], [NaN, 1]);
+  assertEquals([...new Iter([]).dedup()], []);
+  {
+    const iter = new Iter([1, 1]).dedup();
+    assertEquals(iter.sizeHint(), [1, 2]);
+    iter.next();
+    assertEquals(iter.sizeHint(), [0, 1], "the rest may be duplicates");
+    assertStrictEquals(iter.count(), 0);
+  }
+  const nums = new Iter([1, 2, 3, 5, 6, 8]);
+  const deduped = nums.dedupBy((last, v) => v - last === 1);
+  assertEquals([...deduped], [1, 3, 5, 8], "shall compare to the last yielded");
+});
+
+Deno.test("union, intersection and difference", () => {
+  const lhs = [1, 3, 5, 7];
+  const rhs = [2, 3, 4, 7, 8];
+  const union = new Iter(lhs).union(rhs);
+  assertEquals(union.sizeHint(), [5, 9]);
+  assertEquals([...union], [1, 2, 3, 4, 5, 7, 8]);
+  const intersection = new Iter(lhs).intersection(rhs);
+  assertEquals(intersection.sizeHint(), [0, 4]);
+  assertEquals([...intersection], [3, 7]);
+  assertEquals([...new Iter(lhs).difference(rhs)], [1, 5]);
+  assertEquals([...new Iter(rhs).difference(lhs)], [2, 4, 8]);
+  assertEquals([...new Iter<number>([]).union([1, 2])], [1, 2]);
+  assertEquals([...new Iter([1, 2]).difference([])], [1, 2]);
+
+  const desc = (a: string, b: string) => b.localeCompare(a);
+  const words = new Iter(["c", "b", "a"]).intersection(["b", "a"], desc);
+  assertEquals([...words], ["b", "a"]);
+
+  const { counter, values } = closeCounter();
+  const common = new Iter(values(1, 2)).intersection(values(2, 3, 4));
+  assertEquals([...common], [2]);
+  assertStrictEquals(counter.closed, 2, "shall close both iterators");
 });
 
 Deno.test("zip", () => {
@@ -157,6 +613,180 @@ Deno.test("zip", () => {
   assertEquals([...new Iter(a).zip(range())], [[4, 0], [3, 1], [2, 2], [1, 3]]);
 });
 
+Deno.test("zipWith, zipLongest, zipAll and zipEq", () => {
+  const sums = new Iter([1, 2, 3]).zipWith([10, 20], (a, b) => a + b);
+  assertEquals(sums.sizeHint(), [2, 2]);
+  assertEquals([...sums], [11, 22]);
+
+  const longest = new Iter([1, 2, 3]).zipLongest(["a"]);
+  assertEquals(longest.sizeHint(), [3, 3]);
+  assertEquals([...longest], [
+    [Some(1), Some("a")],
+    [Some(2), None],
+    [Some(3), None],
+  ]);
+  assertEquals([...new Iter<number>([]).zipLongest([true])], [
+    [None, Some(true)],
+  ]);
+
+  const rows = new Iter(["ann", "bob", "cid"]).zipAll([31, 25], [true, false]);
+  assertEquals(rows.sizeHint(), [2, 2]);
+  const row: [string, number, boolean] | undefined = rows.next().value;
+  assertEquals(row, ["ann", 31, true]);
+  assertEquals([...rows], [["bob", 25, false]]);
+  assertEquals([...new Iter([1, 2]).zipAll()], [[1], [2]]);
+
+  const { counter, values } = closeCounter();
+  assertEquals([...new Iter([1]).zipAll(values(1, 2), values(1, 2))], [
+    [1, 1, 1],
+  ]);
+  assertStrictEquals(counter.closed, 2, "shall close all the iterators");
+
+  assertEquals([...new Iter([1, 2]).zipEq("ab")], [[1, "a"], [2, "b"]]);
+  assertThrows(
+    () => [...new Iter([1, 2]).zipEq(values(3))],
+    RangeError,
+    "Iter: The second iterator passed to zipEq is shorter",
+  );
+  assertStrictEquals(counter.closed, 3);
+  assertThrows(
+    () => [...new Iter([1]).zipEq([3, 4])],
+    RangeError,
+    "Iter: The first iterator passed to zipEq is shorter",
+  );
+});
+
+Deno.test("chain", () => {
+  assertEquals([...new Iter([1, 2]).chain([3], new Set([4, 5]))], [
+    1,
+    2,
+    3,
+    4,
+    5,
+  ]);
+  assertEquals([...new Iter([] as number[]).chain(range(2))], [0, 1]);
+  {
+    const iter = new Iter([1]).chain([2]);
+    assertEquals([...iter], [1, 2]);
+    assertEquals(iter.sizeHint(), [0, 0], "shall hint nothing once consumed");
+  }
+  {
+    const iter = new Iter([] as number[]).chain([]);
+    iter.next();
+    assertEquals(iter.collect(Array), []);
+  }
+});
+
+Deno.test("flatMap", () => {
+  assertEquals(
+    [...new Iter(["ab", "", "cd"]).flatMap((w) => w.split(""))],
+    ["a", "b", "c", "d"],
+  );
+  assertEquals([...new Iter(range()).flatMap((n) => range(n)).take(4)], [
+    0,
+    0,
+    1,
+    0,
+  ]);
+});
+
+Deno.test("flatten", () => {
+  assertEquals([...new Iter([[1, 2], [], [3]]).flatten()], [1, 2, 3]);
+  assertEquals([...new Iter([range(2), new Set([5])]).flatten()], [0, 1, 5]);
+});
+
+Deno.test("intersperse", () => {
+  assertEquals(
+    new Iter(["a", "b", "c"]).intersperse(", ").collect(String),
+    "a, b, c",
+  );
+  assertEquals([...new Iter([1]).intersperse(0)], [1]);
+  assertEquals([...new Iter([] as number[]).intersperse(0)], []);
+});
+
+Deno.test("intersperseWith", () => {
+  let calls = 0;
+  const got = [...new Iter([1, 2, 3]).intersperseWith(() => --calls)];
+  assertEquals(got, [1, -1, 2, -2, 3]);
+});
+
+Deno.test("peekable", () => {
+  const iter = new Iter([1, 2, 3, 4]).peekable();
+  assertEquals(iter.peek(), Some(1));
+  assertEquals(iter.peek(), Some(1), "peek shall not advance");
+  assertStrictEquals(iter.nextIf((n) => n > 1), None);
+  assertEquals(iter.nextIfEq(1), Some(1));
+  assertEquals(iter.peekMut((n) => n * 10), Some(20));
+  assertEquals([...iter.map((n) => n + 1)], [21, 4, 5]);
+  assertStrictEquals(iter.peek(), None);
+  assertStrictEquals(iter.peekMut((n) => n), None);
+});
+
+Deno.test("peekable interoperates with consumers", () => {
+  {
+    const iter = new Iter([1, 2, 3]).peekable();
+    iter.peek();
+    assertStrictEquals(iter.fold(0, add), 6);
+  }
+  {
+    const iter = new Iter(["a", "b"]).peekable();
+    iter.peek();
+    assertEquals(iter.filter(() => true).collect(String), "ab");
+  }
+});
+
+Deno.test("position, findLast and contains", () => {
+  const iter = new Iter([1, 2, 3, 4, 5]);
+  assertEquals(iter.position((n) => n > 1), Some(1));
+  assertEquals(iter.position((n) => n > 3), Some(1), "shall keep consuming");
+  assertStrictEquals(new Iter([1]).position((n) => n > 1), None);
+  assertEquals(new Iter([1, 2, 3, 4]).findLast((n) => n % 2 === 1), Some(3));
+  assertEquals(new Iter([null, 1]).findLast((v) => v === null), Some(null));
+  assertStrictEquals(new Iter([2]).findLast((n) => n % 2 === 1), None);
+  assert(new Iter([1, NaN]).contains(NaN));
+  assert(!new Iter(["a"]).contains("b"));
+
+  const { counter, values } = closeCounter();
+  assert(new Iter(values(1, 2, 3)).contains(2));
+  assertStrictEquals(counter.closed, 1);
+});
+
+Deno.test("advanceBy and nth", () => {
+  const arr = new Iter([1, 2, 3, 4]);
+  assertStrictEquals(arr.advanceBy(0), 0);
+  assertStrictEquals(arr.advanceBy(2), 2);
+  assertEquals(arr.nth(1), Some(4));
+  assertStrictEquals(arr.advanceBy(2), 0);
+  assertStrictEquals(arr.nth(0), None);
+
+  let calls = 0;
+  function* gen() {
+    for (const v of [1, 2, 3]) {
+      calls++;
+      yield v;
+    }
+  }
+  const iter = new Iter(gen());
+  assertStrictEquals(iter.advanceBy(5), 3);
+  assertStrictEquals(calls, 3);
+
+  const nexts = { count: 0 };
+  const source = new Iter([1, 2, 3]);
+  const counted = new Iter({
+    next: () => (nexts.count++, source.next()),
+    advanceBy: (n: number) => source.advanceBy(n),
+  });
+  assertEquals(counted.nth(2), Some(3));
+  assertStrictEquals(nexts.count, 1, "shall use the advanceBy of the source");
+
+  const peekable = new Iter([1, 2, 3]).peekable();
+  peekable.peek();
+  assertStrictEquals(peekable.advanceBy(2), 2);
+  assertEquals(peekable.nth(0), Some(3));
+  assertThrows(() => new Iter([1]).nth(-1), RangeError);
+  assertThrows(() => new Iter([1]).advanceBy(0.5), RangeError);
+});
+
 Deno.test("collect", () => {
   {
     const arr: [number, number][] = [[1, 1], [2, 2], [3, 3], [4, 4]];
@@ -181,6 +811,137 @@ Deno.test("collect", () => {
     const a = new Iter(arr).collect(Array);
     assertEquals(a, arr);
   }
+  {
+    const a = new Iter(range(3)).map(add(1)).collect(Array);
+    assertEquals(a, [1, 2, 3]);
+  }
+});
+
+Deno.test("collect into typed arrays", () => {
+  const bytes: Uint8Array = new Iter([1, 2, 300]).collect(Uint8Array);
+  assertEquals([...bytes], [1, 2, 44]);
+  assert(bytes instanceof Uint8Array);
+  const floats: Float64Array = new Iter([1, 2, 3, 4])
+    .filter((n) => n % 2 === 0)
+    .map((n) => n / 4)
+    .collect(Float64Array);
+  assertEquals([...floats], [0.5, 1]);
+  const bigs: BigInt64Array = new Iter([1n, -2n]).collect(BigInt64Array);
+  assertEquals([...bigs], [1n, -2n]);
+  assert(new Iter([1n]).collect(BigUint64Array) instanceof BigUint64Array);
+  assertEquals(new Iter([]).collect(Int32Array).length, 0);
+});
+
+Deno.test("collect into objects and weak collections", () => {
+  const entries: [string, number][] = [["a", 1], ["b", 2]];
+  const obj: Record<string, number> = new Iter(entries).collect(Object);
+  assertEquals(obj, { a: 1, b: 2 });
+
+  const key = {};
+  const weakMap: WeakMap<object, string> = new Iter([[key, "v"]] as [
+    object,
+    string,
+  ][]).collect(WeakMap);
+  assertStrictEquals(weakMap.get(key), "v");
+  const weakSet: WeakSet<object> = new Iter([key]).collect(WeakSet);
+  assert(weakSet.has(key));
+});
+
+Deno.test("collect with a custom collector", () => {
+  const sorted: Collector<number, number[]> = {
+    init: () => [],
+    extend: (acc, v) => (acc.push(v), acc),
+    finish: (acc) => acc.sort((a, b) => a - b),
+  };
+  const res: number[] = new Iter([3, 1, 2]).collect(sorted);
+  assertEquals(res, [1, 2, 3]);
+
+  let len: Option<number> = None;
+  const counting: Collector<string, number, number> = {
+    init: (n) => (len = n, 0),
+    extend: (acc) => acc + 1,
+    finish: (acc) => acc * 10,
+  };
+  assertStrictEquals(new Iter(["a", "b"]).collect(counting), 20);
+  assertEquals(len, Some(2), "shall receive the known length");
+  const groups = new Iter(["ab", "c", "ad"]).groupBy((s) => s[0], counting);
+  assertEquals(groups, new Map([["a", 20], ["c", 10]]));
+});
+
+interface BagKind extends Kind {
+  readonly type: Bag<this["elem"]>;
+}
+
+class Bag<T> {
+  constructor(readonly items: T[] = []) {}
+
+  static [FromIter] = <T>(iter: Iterable<T>) => new Bag([...iter]);
+  declare static readonly [Kind]: BagKind;
+
+  [Extend](iter: Iterable<T>) {
+    this.items.push(...iter);
+  }
+}
+
+Deno.test("collect into a FromIter class", () => {
+  const bag: Bag<number> = new Iter([1, 2]).collect(Bag);
+  assert(bag instanceof Bag);
+  assertEquals(bag.items, [1, 2]);
+  const items: number[] = new Iter([1, 2]).collect(Bag).items;
+  assertEquals(items, [1, 2]);
+  const byLetter: Map<string, Bag<string>> = new Iter(["ab"])
+    .groupBy((s) => s[0], Bag);
+  assertEquals(byLetter.get("a")?.items, ["ab"]);
+  const groups = new Iter(["ab", "c", "ad"]).groupBy((s) => s[0], Bag);
+  assertEquals(groups.get("a")?.items, ["ab", "ad"]);
+});
+
+Deno.test("extendInto", () => {
+  const arr = [1];
+  assertStrictEquals(new Iter([2, 3]).extendInto(arr), arr);
+  assertEquals(arr, [1, 2, 3]);
+
+  const set = new Iter([1, 2]).extendInto(new Set([2, 4]));
+  assertEquals(set, new Set([2, 4, 1]));
+
+  const map = new Map([["a", 1]]);
+  new Iter<[string, number]>([["a", 2], ["b", 3]]).extendInto(map);
+  assertEquals(map, new Map([["a", 2], ["b", 3]]));
+
+  const key = {};
+  assert(new Iter([key]).extendInto(new WeakSet()).has(key));
+
+  const bag = new Bag(["x"]);
+  new Iter("yz").extendInto(bag);
+  assertEquals(bag.items, ["x", "y", "z"]);
+});
+
+Deno.test("join", () => {
+  assertStrictEquals(new Iter([1, 2, 3]).join(", "), "1, 2, 3");
+  assertStrictEquals(new Iter([null, undefined]).join("-"), "null-undefined");
+  assertStrictEquals(new Iter<number>([]).join(", "), "");
+  assertStrictEquals(new Iter([]).collect(String), "");
+  assertStrictEquals(typeof new Iter([]).collect(String), "string");
+  assertStrictEquals(new Iter(["a", "b"]).concat(), "ab");
+  assertStrictEquals(
+    new Iter([0.5, 1]).joinWith(" ", (v) => v.toFixed(2)),
+    "0.50 1.00",
+  );
+
+  const list = joining({
+    separator: ", ",
+    lastSeparator: " and ",
+    prefix: "[",
+    suffix: "]",
+  });
+  assertStrictEquals(new Iter(["a", "b", "c"]).collect(list), "[a, b and c]");
+  assertStrictEquals(new Iter(["a", "b"]).collect(list), "[a and b]");
+  assertStrictEquals(new Iter(["a"]).collect(list), "[a]");
+  assertStrictEquals(new Iter([]).collect(list), "[]");
+  assertStrictEquals(
+    range(100000).map(() => "ab").concat().length,
+    200000,
+  );
 });
 
 Deno.test("unzip", () => {
@@ -191,3 +952,533 @@ Deno.test("unzip", () => {
   assertEquals(a, [1, 2]);
   assertEquals(b, new Set([4]));
 });
+
+Deno.test("unzipN", () => {
+  const [names, ages, tags] = new Iter<[string, number, string]>([
+    ["ann", 31, "a"],
+    ["bob", 25, "b"],
+    ["cid", 31, "c"],
+  ]).unzipN(Array, Set, String);
+  const n: string[] = names;
+  const a: Set<number> = ages;
+  const t: string = tags;
+  assertEquals(n, ["ann", "bob", "cid"]);
+  assertEquals(a, new Set([31, 25]));
+  assertStrictEquals(t, "abc");
+  assertEquals(new Iter<[number]>([]).unzipN(Array), [[]]);
+});
+
+Deno.test("partition", () => {
+  const [nums, strs] = new Iter([1, "a", 2, "b"])
+    .partition((v): v is number => typeof v === "number", Set, String);
+  const n: Set<number> = nums;
+  const s: string = strs;
+  assertEquals(n, new Set([1, 2]));
+  assertStrictEquals(s, "ab");
+
+  const [even, odd] = new Iter([1, 2, 3, 4]).partition(
+    (n) => n % 2 === 0,
+    Array,
+    Array,
+  );
+  assertEquals(even, [2, 4]);
+  assertEquals(odd, [1, 3]);
+});
+
+Deno.test("countBy and reduceBy", () => {
+  assertEquals(
+    [...new Iter("hello").countBy((c) => c)],
+    [["h", 1], ["e", 1], ["l", 2], ["o", 1]],
+  );
+  const orders: [string, number][] = [["ann", 3], ["bob", 5], ["ann", 1]];
+  const totals = new Iter(orders)
+    .reduceBy(([name]) => name, 0, (acc, [, n]) => acc + n);
+  assertEquals([...totals], [["ann", 4], ["bob", 5]]);
+  assertEquals(new Iter([]).countBy((v) => v), new Map());
+});
+
+Deno.test("DoubleEndedIter: nextBack", () => {
+  const iter = new DoubleEndedIter([1, 2, 3]);
+  assertStrictEquals(iter.nextBack().value, 3);
+  assertStrictEquals(iter.next().value, 1);
+  assertStrictEquals(iter.nextBack().value, 2);
+  assert(iter.next().done);
+  assert(iter.nextBack().done);
+});
+
+Deno.test("DoubleEndedIter: strings iterate over code points", () => {
+  const s = "a😀b😎";
+  assertEquals([...new DoubleEndedIter(s)], [...s]);
+  assertEquals([...new DoubleEndedIter(s).rev()], [...s].reverse());
+  const iter = new DoubleEndedIter(s);
+  assertStrictEquals(iter.nextBack().value, "😎");
+  assertStrictEquals(iter.next().value, "a");
+  assertEquals(iter.enumerate().rev().next().value, [1, "b"]);
+});
+
+Deno.test("DoubleEndedIter: rev", () => {
+  assertEquals([...new DoubleEndedIter(range(4)).rev()], [3, 2, 1, 0]);
+  assertEquals([...new DoubleEndedIter(new Uint8Array([1, 2])).rev()], [2, 1]);
+});
+
+Deno.test("DoubleEndedIter: rfold", () => {
+  const iter = new DoubleEndedIter(["a", "b", "c"]);
+  assertStrictEquals(iter.rfold("", (acc, v) => acc + v), "cba");
+});
+
+Deno.test("DoubleEndedIter: rfind", () => {
+  const iter = new DoubleEndedIter([1, 2, 3, 4]);
+  assertEquals(iter.rfind((n) => n % 2 === 1), Some(3));
+  assertEquals([...iter], [1, 2]);
+});
+
+Deno.test("DoubleEndedIter: rposition", () => {
+  const iter = new DoubleEndedIter([1, 2, 3, 2, 5]);
+  iter.next();
+  assertEquals(iter.rposition((n) => n === 2), Some(2));
+  assertStrictEquals(new DoubleEndedIter([1]).rposition((n) => n > 1), None);
+});
+
+Deno.test("DoubleEndedIter: findLast, advanceBackBy and nthBack", () => {
+  let calls = 0;
+  const found = new DoubleEndedIter([1, 2, 3, 4])
+    .map((n) => (calls++, n))
+    .findLast((n) => n < 4);
+  assertEquals(found, Some(3));
+  assertStrictEquals(calls, 2, "shall search from the back");
+
+  const iter = new DoubleEndedIter(range(1, 10));
+  assertStrictEquals(iter.advanceBackBy(2), 2);
+  assertEquals(iter.nthBack(1), Some(6));
+  assertEquals(iter.nth(1), Some(2));
+  assertEquals([...iter], [3, 4, 5]);
+  assertStrictEquals(new DoubleEndedIter("ab").nthBack(2), None);
+});
+
+Deno.test("DoubleEndedIter: last", () => {
+  let calls = 0;
+  const iter = new DoubleEndedIter([1, 2, 3]).map((n) => (calls++, n));
+  assertEquals(iter.last(), Some(3));
+  assertStrictEquals(calls, 1, "shall only map the last element");
+  assert(iter.next().done, "iterator shall be consumed");
+  assertStrictEquals(new DoubleEndedIter([]).last(), None);
+
+  const filtered = () => new DoubleEndedIter([1, 2, 3, 4]).filter((n) => n > 1);
+  assertEquals(filtered().last(), Some(4));
+  assertEquals(filtered().take(2).last(), Some(3));
+  assertEquals(filtered().enumerate().last(), Some([2, 4]));
+  assertEquals(filtered().zip([5, 6]).last(), Some([3, 6]));
+  assertEquals(new Iter(filtered().take(2)).last(), Some(3));
+});
+
+Deno.test("DoubleEndedIter: adapters", () => {
+  const arr = [1, 2, 3, 4, 5, 6];
+  assertEquals([...new DoubleEndedIter(arr).map((n) => n * 2).rev()], [
+    12,
+    10,
+    8,
+    6,
+    4,
+    2,
+  ]);
+  assertEquals([...new DoubleEndedIter(arr).filter((n) => n > 3).rev()], [
+    6,
+    5,
+    4,
+  ]);
+  assertEquals([...new DoubleEndedIter(arr).enumerate().rev().take(2)], [
+    [5, 6],
+    [4, 5],
+  ]);
+  assertEquals([...new DoubleEndedIter(arr).zip("abc").rev()], [
+    [3, "c"],
+    [2, "b"],
+    [1, "a"],
+  ]);
+  assertEquals([...new DoubleEndedIter(arr).take(4).rev()], [4, 3, 2, 1]);
+  assertEquals([...new DoubleEndedIter(arr).skip(4).rev()], [6, 5]);
+  assertEquals([...new DoubleEndedIter([1, 2]).chain([3], range(4, 6)).rev()], [
+    5,
+    4,
+    3,
+    2,
+    1,
+  ]);
+  {
+    const iter = new DoubleEndedIter(arr).take(4);
+    assertStrictEquals(iter.next().value, 1);
+    assertStrictEquals(iter.nextBack().value, 4);
+    assertEquals([...iter], [2, 3]);
+  }
+  assertThrows(
+    () => new DoubleEndedIter(arr).filter((n) => n > 1).enumerate().nextBack(),
+    TypeError,
+  );
+});
+
+Deno.test("return: closes the source on early termination", () => {
+  const { counter, values } = closeCounter();
+  for (const n of new Iter(values(1, 2, 3)).map((n) => n * 2).filter(Boolean)) {
+    if (n === 2) {
+      break;
+    }
+  }
+  assertStrictEquals(counter.closed, 1);
+  assertEquals(new Iter(values(1, 2, 3)).find((n) => n === 2), Some(2));
+  assertStrictEquals(counter.closed, 2);
+  assert(new Iter(values(1, 2, 3)).any((n) => n === 1));
+  assertStrictEquals(counter.closed, 3);
+  assert(!new Iter(values(1, 2, 3)).all((n) => n === 3));
+  assertStrictEquals(counter.closed, 4);
+  assert(new Iter(values(1, 2, 3)).cmp(values(1, 3)) < 0);
+  assertStrictEquals(counter.closed, 6);
+  assert(!new Iter(values(1, 2)).eq(values(1)));
+  assertStrictEquals(counter.closed, 8);
+  assertEquals([...new Iter(values(1, 2, 3)).take(2)], [1, 2]);
+  assertStrictEquals(counter.closed, 9);
+  assertEquals([...new Iter(values(1, 2, 3)).takeWhile((n) => n < 2)], [1]);
+  assertStrictEquals(counter.closed, 10);
+  assertEquals([...new Iter(values(1, 2)).filter((n) => n > 1)], [2]);
+  assertStrictEquals(counter.closed, 11);
+});
+
+Deno.test("return: closes the source when a callback throws", () => {
+  const { counter, values } = closeCounter();
+  const fail = () => {
+    throw new Error("fail");
+  };
+  assertThrows(() => new Iter(values(1, 2)).map(fail).next(), Error, "fail");
+  assertStrictEquals(counter.closed, 1);
+  assertThrows(() => new Iter(values(1, 2)).fold(0, fail), Error, "fail");
+  assertStrictEquals(counter.closed, 2);
+  assertThrows(() => new Iter(values(1, 2)).forEach(fail), Error, "fail");
+  assertStrictEquals(counter.closed, 3);
+  assertThrows(() => new Iter(values(1, 2)).eqBy([1], fail), Error, "fail");
+  assertStrictEquals(counter.closed, 4);
+  assertThrows(
+    () => new Iter(values(1, 2)).peekable().nextIf(fail),
+    Error,
+    "fail",
+  );
+  assertStrictEquals(counter.closed, 5);
+});
+
+Deno.test("return: zip closes both sides exactly once", () => {
+  const { counter, values } = closeCounter();
+  assertEquals([...new Iter(values(1, 2, 3)).zip(values("a"))], [[1, "a"]]);
+  assertStrictEquals(counter.closed, 2);
+  assertEquals([...new Iter(values(1)).zip(values("a", "b"))], [[1, "a"]]);
+  assertStrictEquals(counter.closed, 4);
+
+  const zipped = new Iter(values(1, 2)).zip(values("a", "b"));
+  zipped.next();
+  zipped.return();
+  zipped.return();
+  assertStrictEquals(counter.closed, 6);
+  assertEquals([...zipped], []);
+  assertStrictEquals(counter.closed, 6);
+});
+
+Deno.test("throw: forwards the error to the source", () => {
+  const { counter, values } = closeCounter();
+  const iter = new Iter(values(1, 2)).map((n) => n * 2);
+  assertStrictEquals(iter.next().value, 2);
+  assertThrows(() => iter.throw(new Error("fail")), Error, "fail");
+  assertStrictEquals(counter.closed, 1);
+  assert(iter.next().done);
+});
+
+Deno.test("chunks", () => {
+  assertEquals([...new Iter([1, 2, 3, 4, 5]).chunks(2)], [[1, 2], [3, 4], [5]]);
+  assertEquals([...new Iter([1, 2, 3, 4]).chunks(2)], [[1, 2], [3, 4]]);
+  assertEquals([...new Iter([]).chunks(3)], []);
+  assertEquals(new Iter([1, 2, 3, 4, 5]).chunks(2).sizeHint(), [3, 3]);
+  assertThrows(() => new Iter([1]).chunks(0), RangeError);
+});
+
+Deno.test("chunksExact", () => {
+  const chunks = new Iter([1, 2, 3, 4, 5]).chunksExact(2);
+  assertEquals([...chunks], [[1, 2], [3, 4]]);
+  assertEquals([...new Iter([1, 2]).chunksExact(3)], []);
+  assertEquals(new Iter([1, 2, 3, 4, 5]).chunksExact(2).sizeHint(), [2, 2]);
+  assertThrows(() => new Iter([1]).chunksExact(1.5), RangeError);
+});
+
+Deno.test("windows", () => {
+  const windows = new Iter([1, 2, 3, 4]).windows(3);
+  assertEquals(windows.sizeHint(), [2, 2]);
+  const first = windows.next().value;
+  assertEquals(windows.sizeHint(), [1, 1]);
+  assertEquals([...windows], [[2, 3, 4]]);
+  assertEquals(first, [1, 2, 3]);
+  assertEquals([...new Iter([1, 2]).windows(3)], []);
+  assertEquals([...new Iter("abc").windows(1)], [["a"], ["b"], ["c"]]);
+  assertThrows(() => new Iter([1]).windows(-1), RangeError);
+});
+
+Deno.test("pairwise", () => {
+  const pairs = new Iter([1, 2, 3, 4]).pairwise();
+  assertEquals(pairs.sizeHint(), [3, 3]);
+  assertEquals(pairs.next().value, [1, 2]);
+  assertEquals(pairs.sizeHint(), [2, 2]);
+  assertEquals([...pairs], [[2, 3], [3, 4]]);
+  assertEquals([...new Iter([1]).pairwise()], []);
+  assertEquals([...new Iter([]).pairwise()], []);
+});
+
+Deno.test("scan, accumulate and inspect", () => {
+  const totals = new Iter([3, 4, 2, 5, 1]).scan(
+    0,
+    (total, v): Option<[number, number]> =>
+      total + v < 10 ? Some([total + v, total + v]) : None,
+  );
+  assertEquals(totals.sizeHint(), [0, 5]);
+  assertEquals([...totals], [3, 7, 9]);
+  assertEquals(totals.sizeHint(), [0, 0]);
+
+  const labels = new Iter(["a", "b"])
+    .scan(1, (i, v) => Some([`${i}. ${v}`, i + 1]));
+  assertEquals([...labels], ["1. a", "2. b"]);
+
+  const { counter, values } = closeCounter();
+  const stopped = new Iter(values(1, 2, 3)).scan(0, () => None);
+  assertEquals([...stopped], []);
+  assertStrictEquals(counter.closed, 1, "shall close the source");
+
+  const sums = new Iter([1, 2, 3, 4]).accumulate((a, b) => a + b);
+  assertEquals(sums.sizeHint(), [4, 4]);
+  assertEquals([...sums], [1, 3, 6, 10]);
+  assertEquals([...new Iter<number>([]).accumulate(Math.max)], []);
+
+  const seen: number[] = [];
+  const odd = new Iter([1, 2, 3])
+    .inspect((v) => seen.push(v))
+    .filter((v) => v % 2 === 1);
+  assertEquals(odd.next().value, 1);
+  assertEquals(seen, [1]);
+  assertEquals([...odd], [3]);
+  assertEquals(seen, [1, 2, 3]);
+
+  let taps = 0;
+  assertStrictEquals(new Iter([1, 2, 3]).inspect(() => taps++).count(), 3);
+  assertStrictEquals(taps, 3, "shall call the function when counting");
+});
+
+Deno.test("chunkBy", () => {
+  let calls = 0;
+  const chunks = new Iter([1, 1, 2, 3, 3, 3, 1]).chunkBy((n) => (calls++, n));
+  assertEquals([...chunks], [[1, [1, 1]], [2, [2]], [3, [3, 3, 3]], [1, [1]]]);
+  assertStrictEquals(calls, 7);
+  assertEquals(
+    [...new Iter(["ab", "ac", "b"]).chunkBy((s) => s[0])],
+    [["a", ["ab", "ac"]], ["b", ["b"]]],
+  );
+  assertEquals([...new Iter([]).chunkBy((n) => n)], []);
+  assertEquals(new Iter([1, 2]).chunkBy((n) => n).sizeHint(), [1, 2]);
+});
+
+Deno.test("groupBy", () => {
+  const nums = [1, 2, 3, 4, 5, 6, 1];
+  const byParity = new Iter(nums).groupBy((n) => n % 2, Array);
+  assertEquals([...byParity], [[1, [1, 3, 5, 1]], [0, [2, 4, 6]]]);
+  const sets = new Iter(nums).groupBy((n) => n % 2, Set);
+  assertEquals(sets.get(1), new Set([1, 3, 5]));
+  const words = new Iter(["ab", "b", "ac"]).groupBy((w) => w[0], String);
+  assertEquals(words, new Map([["a", "abac"], ["b", "b"]]));
+  assertEquals(new Iter([]).groupBy((n) => n, Array), new Map());
+});
+
+/**
+ * Consumes the iterator, checking that its size hint is exact
+ * before every step.
+ */
+const collectExact = <T>(iter: Iter<T>): T[] => {
+  const res: T[] = [];
+  for (;;) {
+    const hint = iter.sizeHint();
+    const { value, done } = iter.next();
+    if (done) {
+      assertEquals(hint, [0, 0]);
+      return res;
+    }
+    res.push(value);
+    assert(hint[0] > 0 && hint[0] === hint[1], `invalid hint ${hint}`);
+  }
+};
+
+Deno.test("cycle", () => {
+  const iter = new Iter([1, 2, 3]).cycle();
+  assertEquals(iter.sizeHint(), [Infinity, null]);
+  assertEquals(iter.take(7).collect(Array), [1, 2, 3, 1, 2, 3, 1]);
+  assertEquals([...new Iter([]).cycle()], []);
+  assertEquals(new Iter([]).cycle().sizeHint(), [0, 0]);
+
+  let pulled = 0;
+  const lazy = new Iter(range()).map((n) => (pulled++, n)).cycle();
+  assertEquals(lazy.take(3).collect(Array), [0, 1, 2]);
+  assertStrictEquals(pulled, 3, "shall pull the source lazily");
+
+  const { counter, values } = closeCounter();
+  const gen = new Iter(values(1, 2)).cycle();
+  assertEquals(gen.take(5).collect(Array), [1, 2, 1, 2, 1]);
+  assertStrictEquals(counter.closed, 1);
+});
+
+Deno.test("cartesianProduct", () => {
+  const matrix: Iter<[string, number, boolean]> = new Iter(["linux", "mac"])
+    .cartesianProduct([16, 18], new Set([true]));
+  assertEquals(matrix.sizeHint(), [4, 4]);
+  assertEquals(collectExact(matrix), [
+    ["linux", 16, true],
+    ["linux", 18, true],
+    ["mac", 16, true],
+    ["mac", 18, true],
+  ]);
+  assertEquals([...new Iter([1, 2]).cartesianProduct()], [[1], [2]]);
+  assertEquals([...new Iter([1, 2]).cartesianProduct([])], []);
+
+  const lazy = new Iter(range()).cartesianProduct("ab");
+  assertEquals(lazy.take(3).collect(Array), [[0, "a"], [0, "b"], [1, "a"]]);
+  assertThrows(
+    () => new Iter([1]).cartesianProduct(repeat(0)).next(),
+    RangeError,
+    "infinite",
+  );
+});
+
+Deno.test("combinations", () => {
+  const pairs: Iter<[number, number]> = new Iter([1, 2, 3, 4]).combinations(2);
+  assertEquals(pairs.sizeHint(), [6, 6]);
+  assertEquals(collectExact(pairs), [
+    [1, 2],
+    [1, 3],
+    [1, 4],
+    [2, 3],
+    [2, 4],
+    [3, 4],
+  ]);
+  assertEquals(collectExact(new Iter([1, 2, 3]).combinations(3)), [[1, 2, 3]]);
+  assertEquals(collectExact(new Iter([1, 2]).combinations(0)), [[]]);
+  assertEquals([...new Iter([1, 2]).combinations(3)], []);
+  const triples = new Iter([1, 2, 3, 4, 5]).combinations(3);
+  assertEquals(collectExact(triples).length, 10);
+
+  let pulled = 0;
+  const lazy = new Iter(range()).map((n) => (pulled++, n)).combinations(2);
+  assertEquals(lazy.take(2).collect(Array), [[0, 1], [0, 2]]);
+  assertStrictEquals(pulled, 3, "shall buffer only the needed elements");
+  assertThrows(() => new Iter([1]).combinations(-1), RangeError);
+});
+
+Deno.test("combinationsWithReplacement", () => {
+  const pairs = new Iter([1, 2, 3]).combinationsWithReplacement(2);
+  assertEquals(pairs.sizeHint(), [6, 6]);
+  assertEquals(collectExact(pairs), [
+    [1, 1],
+    [1, 2],
+    [1, 3],
+    [2, 2],
+    [2, 3],
+    [3, 3],
+  ]);
+  assertEquals(
+    collectExact(new Iter([1, 2]).combinationsWithReplacement(3)),
+    [[1, 1, 1], [1, 1, 2], [1, 2, 2], [2, 2, 2]],
+  );
+  assertEquals(collectExact(new Iter([]).combinationsWithReplacement(0)), [[]]);
+  assertEquals([...new Iter([]).combinationsWithReplacement(1)], []);
+});
+
+Deno.test("permutations", () => {
+  const perms: Iter<[number, number]> = new Iter([1, 2, 3]).permutations(2);
+  assertEquals(perms.sizeHint(), [6, 6]);
+  assertEquals(collectExact(perms), [
+    [1, 2],
+    [1, 3],
+    [2, 1],
+    [2, 3],
+    [3, 1],
+    [3, 2],
+  ]);
+  assertEquals(collectExact(new Iter("abc").permutations(3)).length, 6);
+  assertEquals(collectExact(new Iter([1]).permutations(0)), [[]]);
+  assertEquals([...new Iter([1, 2]).permutations(3)], []);
+  assertThrows(
+    () => new Iter(repeat(0)).permutations(2).next(),
+    RangeError,
+    "infinite",
+  );
+});
+
+Deno.test("powerset", () => {
+  const subsets = new Iter([1, 2, 3]).powerset();
+  assertEquals(subsets.sizeHint(), [8, 8]);
+  assertEquals(collectExact(subsets), [
+    [],
+    [1],
+    [2],
+    [3],
+    [1, 2],
+    [1, 3],
+    [2, 3],
+    [1, 2, 3],
+  ]);
+  assertEquals(collectExact(new Iter([]).powerset()), [[]]);
+  assertEquals(collectExact(new Iter([1]).powerset()), [[], [1]]);
+  const lazy = new Iter(range()).powerset();
+  assertEquals(lazy.take(3).collect(Array), [[], [0], [1]]);
+});
+
+Deno.test("Option can hold null", () => {
+  assertEquals(new Iter([1, null]).find((v) => v === null), Some(null));
+  assertStrictEquals(new Iter([1, 2]).find((v) => v === null), None);
+  assertEquals(new Iter([2, null]).last(), Some(null));
+  assertEquals(new Iter([null]).fold1((acc) => acc), Some(null));
+  assertEquals(
+    [...new Iter([1, 2]).filterMap((n) => n > 1 ? Some(null) : None)],
+    [null],
+  );
+  assertEquals(new Iter([null, 1]).peekable().peek(), Some(null));
+});
+
+Deno.test("tryReduce", () => {
+  const add = (acc: number, v: number): Result<number, string> =>
+    v < 0 ? Err(`negative ${v}`) : Ok(acc + v);
+  assertEquals(new Iter([1, 2, 3]).tryReduce(add), Ok(Some(6)));
+  assertEquals(new Iter([] as number[]).tryReduce(add), Ok(None));
+  assertEquals(new Iter([1, -2, 3]).tryReduce(add), Err("negative -2"));
+});
+
+Deno.test("tryMap", () => {
+  const parse = (s: string) => okOr(parseIntegral(s), s);
+  const iter = new Iter(["1", "a", "2"]).tryMap(parse);
+  assertEquals([...iter], [Ok(1), Err("a")]);
+  assertEquals(new Iter(["1", "2"]).tryMap(parse).sizeHint(), [0, 2]);
+
+  let closed = false;
+  const source = (function* () {
+    try {
+      yield* ["1", "a", "2"];
+    } finally {
+      closed = true;
+    }
+  })();
+  const results = new Iter(source).tryMap(parse).collect(Array);
+  assertEquals(results, [Ok(1), Err("a")]);
+  assert(closed, "shall close the source after the first error");
+});
+
+Deno.test("tryCollect", () => {
+  const parse = (s: string) => okOr(parseIntegral(s), s);
+  assertEquals(new Iter(["1", "2"]).map(parse).tryCollect(Array), Ok([1, 2]));
+  assertEquals(new Iter(["1", "a", "b"]).map(parse).tryCollect(Set), Err("a"));
+  assertEquals(new Iter([Ok("a"), Ok("b")]).tryCollect(String), Ok("ab"));
+});
+
+Deno.test("partitionResults", () => {
+  const parse = (s: string) => okOr(parseIntegral(s), s);
+  const [nums, errors] = new Iter(["1", "a", "2", "b"]).map(parse)
+    .partitionResults(Array, Set);
+  assertEquals(nums, [1, 2]);
+  assertEquals(errors, new Set(["a", "b"]));
+});
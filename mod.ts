@@ -1,61 +1,567 @@
-import { Option, some } from "./option.ts";
-import { ok, Result } from "./result.ts";
-import { Collection, Constructor, default as extend } from "./extender.ts";
+import { None, none, Option, Some, some } from "./option.ts";
+import { Err, Ok, ok, Result } from "./result.ts";
+import {
+  appender,
+  Collection,
+  Collector,
+  Constructor,
+  default as collector,
+  Extend,
+  Extendable,
+  First,
+  FromIter,
+  isExtend,
+  joining,
+  JoinOptions,
+  Kind,
+  Second,
+} from "./extender.ts";
+import {
+  cmpNumbers,
+  Comparator,
+  maxCmp,
+  minCmp,
+  partialCmp,
+  PartialComparator,
+  totalCmp,
+} from "./cmp.ts";
+import Heap from "./heap.ts";
+import AsyncIter from "./async.ts";
+
+export type {
+  Collector,
+  Comparator,
+  Extendable,
+  JoinOptions,
+  PartialComparator,
+};
+export { AsyncIter, Extend, FromIter, joining, Kind };
+
+const fromIntoIter = <T>(i: IntoIter<T>): Iter<T> => {
+  if (i instanceof Iter) {
+    return i;
+  }
+  return new Iter(i);
+};
+
+/**
+ * **IntoIter** is the type that a value must satisfy to
+ * be turned into an Iter
+ */
+export type IntoIter<T> = Iterable<T> | SizedIterator<T>;
+
+/**
+ * **ItemOf** is the type of the elements of an IntoIter.
+ */
+export type ItemOf<I> = I extends Iterable<infer T> ? T
+  : I extends Iterator<infer T> ? T
+  : never;
+
+/**
+ * **SizeHint** represents the bounds on the number of elements
+ * remaining in an iterator: the first element is the lower bound,
+ * the second one is the upper bound, or null if it is unknown.
+ * 
+ * An iterator that is known to never end, such as the ones returned
+ * by **repeat** and **cycle**, has Infinity as the lower bound and null
+ * as the upper bound. Adapters keep that bound, so methods that have to
+ * buffer all the elements can throw instead of running forever. Other
+ * iterators, such as generators, may never end as well: a lower bound
+ * that isn't Infinity doesn't tell that the iterator is finite.
+ */
+export type SizeHint = [number, number | null];
+
+/**
+ * **Tuple** is the type of a tuple with N elements of type T,
+ * or the type of an array of T if N isn't known at compile time
+ * or isn't a valid length.
+ */
+export type Tuple<T, N extends number, R extends T[] = []> = number extends N
+  ? T[]
+  : `${N}` extends `-${string}` | `${string}.${string}` ? T[]
+  : R["length"] extends N ? R
+  : Tuple<T, N, [...R, T]>;
+
+/**
+ * **SizedIterator** is an iterator that can tell the bounds on
+ * the number of its remaining elements. Iter uses them to
+ * skip iteration or to preallocate memory where possible.
+ * 
+ * The bounds must be correct: an iterator must not yield fewer
+ * elements than its lower bound, nor more than its upper bound.
+ */
+export interface SizedIterator<T> extends Iterator<T> {
+  sizeHint?(): SizeHint;
+  /**
+   * **advanceBy** skips up to n elements without yielding them and
+   * returns the number of skipped elements, which is less than n only
+   * if the iterator ended. Implement it if elements can be skipped
+   * faster than by calling **next** repeatedly, as with arrays.
+   */
+  advanceBy?(n: number): number;
+}
+
+/**
+ * **DoubleEndedIterator** is an iterator that can also yield elements
+ * from its back, through **nextBack**. The front and the back share
+ * the elements: the iteration ends when they meet.
+ * 
+ * Implement **sizeHint** if the number of remaining elements is known.
+ * Some adapters require it to be able to iterate from the back.
+ */
+export interface DoubleEndedIterator<T> extends SizedIterator<T> {
+  nextBack(): IteratorResult<T>;
+  /**
+   * **advanceBackBy** is the same as **advanceBy**, but it skips
+   * the elements from the back.
+   */
+  advanceBackBy?(n: number): number;
+}
 
 /**
- * **Comparator** represents a comparator functions.
- * If the return value is positive, lhs is greater than rhs.
- * If it's negative, then lhs is less than rhs.
- * Else lhs and rhs are equal.
+ * **IntoDoubleEndedIter** is the type that a value must satisfy to
+ * be turned into a DoubleEndedIter.
  */
-type Comparator<T, U> = (lhs: T, rhs: U) => number;
+export type IntoDoubleEndedIter<T> = ArrayLike<T> | DoubleEndedIterator<T>;
+
+const exhausted: DoubleEndedIterator<never> = {
+  next: () => ({ value: undefined, done: true }),
+  nextBack: () => ({ value: undefined, done: true }),
+  sizeHint: () => [0, 0],
+};
+
 /**
- * PartialComparator is the same as Comparator.
- * It returns null instead of a number when 2 elements can't
- * be compared. Such an example would be comparing NaN to
- * a number - this should return null.
+ * **exactLen** returns the number of elements remaining in
+ * the given iterator, throwing if it is unknown.
  */
-type PartialComparator<T, U> = (lhs: T, rhs: U) => Option<number>;
+const exactLen = (iter: Iter<unknown>): number => {
+  const len = iter.len();
+  if (!some(len)) {
+    throw new TypeError("Iter: The number of remaining elements is unknown");
+  }
+  return len.value;
+};
 
 /**
- * **maxCmp** is used internally as a comparison function
- * for Iter methods **max** and **maxByKey**. As **maxBy** 
- * only swaps values if the return value of the function is
- * positive (lhs is greater), this function ignores the case
- * when lhs is less than rhs. Because of this, it is a malformed
- * comparator otherwise, so it should not be used in any other
- * context.
+ * **sizeHintOf** returns the size hint of the given iterator,
+ * or the default one if it doesn't provide it.
  */
-const maxCmp = <T>(lhs: T, rhs: T): number => {
-  if (lhs > rhs) {
-    return 1;
+const sizeHintOf = (iter: Iterator<unknown>): SizeHint => {
+  const { sizeHint } = iter as SizedIterator<unknown>;
+  if (typeof sizeHint !== "function") {
+    return [0, null];
   }
-  return 0;
+  return sizeHint.call(iter);
 };
 
+const addHints = (
+  [lhsLow, lhsHigh]: SizeHint,
+  [rhsLow, rhsHigh]: SizeHint,
+): SizeHint => [
+  lhsLow + rhsLow,
+  lhsHigh !== null && rhsHigh !== null ? lhsHigh + rhsHigh : null,
+];
+
 /**
- * **minCmp** is the same as **maxCmp**, but returns -1 if lhs
- * is less than rhs. 
+ * **callOrClose** calls the function with the given arguments,
+ * closing the iterator if it throws.
  */
-const minCmp = <T>(lhs: T, rhs: T): number => {
-  if (lhs < rhs) {
-    return -1;
+const callOrClose = <A extends unknown[], R>(
+  iter: Iter<unknown>,
+  f: (...args: A) => R,
+  ...args: A
+): R => {
+  try {
+    return f(...args);
+  } catch (e) {
+    iter.return();
+    throw e;
   }
-  return 0;
 };
 
-const fromIntoIter = <T>(i: IntoIter<T>): Iter<T> => {
-  if (i instanceof Iter) {
-    return i;
+const upperHint = ([, high]: SizeHint): SizeHint => [0, high];
+
+const takeHint = (hint: SizeHint, n: number): SizeHint =>
+  minHints(hint, [Math.max(0, n), Math.max(0, n)]);
+
+const skipHint = ([low, high]: SizeHint, n: number): SizeHint => [
+  Math.max(0, low - n),
+  high !== null ? Math.max(0, high - n) : null,
+];
+
+const mapHint = (
+  [low, high]: SizeHint,
+  f: (n: number) => number,
+): SizeHint => [f(low), high !== null ? f(high) : null];
+
+const mulHints = (
+  [lhsLow, lhsHigh]: SizeHint,
+  [rhsLow, rhsHigh]: SizeHint,
+): SizeHint => {
+  // Avoids multiplying an infinite bound with zero.
+  if (lhsHigh === 0 || rhsHigh === 0) {
+    return [0, 0];
   }
-  return new Iter(i);
+  return [
+    lhsLow * rhsLow,
+    lhsHigh !== null && rhsHigh !== null ? lhsHigh * rhsHigh : null,
+  ];
 };
 
 /**
- * **IntoIter** is the type that a value must satisfy to
- * be turned into an Iter
+ * **binomial** returns the number of ways to choose k elements
+ * out of n, disregarding their order.
+ */
+const binomial = (n: number, k: number): number => {
+  if (k < 0 || k > n) {
+    return 0;
+  }
+  let res = 1;
+  for (let i = 0; i < k; i++) {
+    res = res * (n - i) / (i + 1);
+  }
+  return Math.round(res);
+};
+
+/**
+ * **arrangements** returns the number of ways to choose k elements
+ * out of n, taking their order into account.
+ */
+const arrangements = (n: number, k: number): number => {
+  if (k > n) {
+    return 0;
+  }
+  let res = 1;
+  for (let i = 0; i < k; i++) {
+    res *= n - i;
+  }
+  return res;
+};
+
+/**
+ * **buffer** collects the remaining elements of the iterator into
+ * an array, throwing if the iterator is known to never end, as the
+ * elements could never be collected. Only iterators whose size hint
+ * tells so are detected: buffering any other infinite iterator,
+ * such as a generator, never returns.
+ */
+const buffer = <T>(iter: Iter<T>, what: string): T[] => {
+  if (iter.sizeHint()[0] === Infinity) {
+    iter.return();
+    throw new RangeError(`Iter: Can't buffer an infinite iterator for ${what}`);
+  }
+  return iter.collect(Array);
+};
+
+const checkSize = (n: number, what: string) => {
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new RangeError(`Iter: Invalid ${what} size ${n}, must be positive`);
+  }
+};
+
+const checkCount = (n: number, what: string) => {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new RangeError(`Iter: Invalid ${what} ${n}, must be non-negative`);
+  }
+};
+
+const cmpNumeric = (
+  lhs: number | bigint,
+  rhs: number | bigint,
+): Option<number> =>
+  typeof lhs === "number" && typeof rhs === "number"
+    ? cmpNumbers(lhs, rhs)
+    : Some(totalCmp(lhs, rhs));
+
+const isSafe = (n: number | bigint): boolean =>
+  n >= Number.MIN_SAFE_INTEGER && n <= Number.MAX_SAFE_INTEGER;
+
+const checkedFold = (
+  iter: Iter<number | bigint>,
+  start: number | bigint,
+  f: (acc: number | bigint, v: number | bigint) => number | bigint,
+  what: string,
+): Result<number | bigint, RangeError> =>
+  iter.tryFold(start, (acc, v) => {
+    const res = f(acc, v);
+    if (isSafe(res)) {
+      return Ok(res);
+    }
+    return Err(
+      new RangeError(`Iter: The ${what} ${res} is not a safe integer`),
+    );
+  });
+
+/**
+ * **withStart** calls the given fold with the start value, if given,
+ * or else with the identity of the type of the first element, 0 or 1
+ * as a number or a bigint. An empty iterator uses the number identity.
+ */
+const withStart = <R>(
+  iter: Iter<number | bigint>,
+  start: number | bigint | undefined,
+  identity: 0 | 1,
+  fold: (iter: Iter<number | bigint>, start: number | bigint) => R,
+): R => {
+  if (start !== undefined) {
+    return fold(iter, start);
+  }
+  const first = iter.next();
+  if (first.done) {
+    return fold(iter, identity);
+  }
+  const value = typeof first.value === "bigint" ? BigInt(identity) : identity;
+  return fold(new Iter([first.value]).chain(iter), value);
+};
+
+/**
+ * **isOrdered** checks if the result of a comparator or of a partial
+ * comparator means that lhs comes before rhs or is equal to it.
+ */
+const isOrdered = (ordering: number | Option<number>): boolean => {
+  if (typeof ordering === "number") {
+    return ordering <= 0;
+  }
+  return some(ordering) && ordering.value <= 0;
+};
+
+/**
+ * **sameValueZero** checks if two values are equal using the
+ * SameValueZero algorithm, which Set and Map use for their keys.
+ */
+const sameValueZero = (lhs: unknown, rhs: unknown): boolean =>
+  lhs === rhs || (lhs !== lhs && rhs !== rhs);
+
+const minHints = (
+  [lhsLow, lhsHigh]: SizeHint,
+  [rhsLow, rhsHigh]: SizeHint,
+): SizeHint => [
+  Math.min(lhsLow, rhsLow),
+  lhsHigh !== null && rhsHigh !== null
+    ? Math.min(lhsHigh, rhsHigh)
+    : lhsHigh ?? rhsHigh,
+];
+
+const maxHints = (
+  [lhsLow, lhsHigh]: SizeHint,
+  [rhsLow, rhsHigh]: SizeHint,
+): SizeHint => [
+  Math.max(lhsLow, rhsLow),
+  lhsHigh !== null && rhsHigh !== null ? Math.max(lhsHigh, rhsHigh) : null,
+];
+
+/**
+ * **toOption** returns the value of an iterator result, unless it's done.
+ */
+const toOption = <T>({ value, done }: IteratorResult<T>): Option<T> =>
+  done ? None : Some(value);
+
+/**
+ * **roundRobin** takes one element from each of the iterators in turn,
+ * dropping the ones that are done.
+ */
+const roundRobin = <T>(sources: Iter<T>[]): Iter<T> => {
+  let iters = sources;
+  let current = 0;
+  const next = (): IteratorResult<T> => {
+    while (iters.length !== 0) {
+      const res = iters[current].next();
+      if (!res.done) {
+        current = (current + 1) % iters.length;
+        return res;
+      }
+      iters = iters.filter((_, i) => i !== current);
+      current = iters.length !== 0 ? current % iters.length : 0;
+    }
+    return { value: undefined, done: true };
+  };
+
+  const sizeHint = (): SizeHint =>
+    iters.map((iter) => iter.sizeHint()).reduce(addHints, [0, 0]);
+
+  return new Iter<T>({
+    next,
+    sizeHint,
+    return: (value?: unknown) => {
+      iters.forEach((iter) => iter.return());
+      return { value, done: true };
+    },
+  });
+};
+
+/**
+ * **SizedSourceIterator** wraps the iterator of a collection that
+ * knows its size, such as a Set or a Map. The size is read when the
+ * hint is asked for, so elements added before iterating are counted.
+ */
+class SizedSourceIterator<T> implements SizedIterator<T> {
+  private readonly iter: Iterator<T>;
+  private yielded = 0;
+  private done = false;
+
+  constructor(private readonly source: Set<T> | Map<unknown, unknown>) {
+    this.iter = source[Symbol.iterator]() as Iterator<T>;
+  }
+
+  next(): IteratorResult<T> {
+    const res = this.iter.next();
+    if (res.done) {
+      this.done = true;
+    } else {
+      this.yielded++;
+    }
+    return res;
+  }
+
+  sizeHint(): SizeHint {
+    const remaining = this.done
+      ? 0
+      : Math.max(0, this.source.size - this.yielded);
+    return [remaining, remaining];
+  }
+}
+
+/**
+ * **ArrayLikeIterator** iterates over an array or a typed array by
+ * index. Like the array's own iterator, it reads the length on every
+ * step until the back is first taken from.
+ */
+class ArrayLikeIterator<T> implements DoubleEndedIterator<T> {
+  private front = 0;
+  private back?: number;
+
+  constructor(private readonly arr: ArrayLike<T>) {}
+
+  private get end(): number {
+    return this.back ?? this.arr.length;
+  }
+
+  next(): IteratorResult<T> {
+    if (this.front >= this.end) {
+      this.back = this.front;
+      return { value: undefined, done: true };
+    }
+    return { value: this.arr[this.front++] };
+  }
+
+  nextBack(): IteratorResult<T> {
+    const end = this.end;
+    if (this.front >= end) {
+      this.back = this.front;
+      return { value: undefined, done: true };
+    }
+    this.back = end - 1;
+    return { value: this.arr[this.back] };
+  }
+
+  advanceBy(n: number): number {
+    const skipped = Math.max(0, Math.min(n, this.end - this.front));
+    this.front += skipped;
+    return skipped;
+  }
+
+  advanceBackBy(n: number): number {
+    const end = this.end;
+    const skipped = Math.max(0, Math.min(n, end - this.front));
+    this.back = end - skipped;
+    return skipped;
+  }
+
+  sizeHint(): SizeHint {
+    const len = Math.max(0, this.end - this.front);
+    return [len, len];
+  }
+}
+
+/**
+ * **StringIterator** iterates over the code points of a string,
+ * the same as the string's own iterator does.
  */
-export type IntoIter<T> = Iterable<T> | Iterator<T>;
+class StringIterator implements DoubleEndedIterator<string> {
+  private front = 0;
+  private back: number;
+  private remaining: number | null = null;
+
+  constructor(private readonly str: string) {
+    this.back = str.length;
+  }
+
+  next(): IteratorResult<string> {
+    if (this.front >= this.back) {
+      return { value: undefined, done: true };
+    }
+    const cp = this.str.codePointAt(this.front) as number;
+    const size = cp > 0xffff && this.front + 1 < this.back ? 2 : 1;
+    const value = this.str.slice(this.front, this.front += size);
+    this.consumed();
+    return { value };
+  }
+
+  nextBack(): IteratorResult<string> {
+    if (this.front >= this.back) {
+      return { value: undefined, done: true };
+    }
+    const low = this.str.charCodeAt(this.back - 1);
+    const high = this.str.charCodeAt(this.back - 2);
+    const size = isLowSurrogate(low) && isHighSurrogate(high) &&
+        this.back - 2 >= this.front
+      ? 2
+      : 1;
+    const value = this.str.slice(this.back - size, this.back);
+    this.back -= size;
+    this.consumed();
+    return { value };
+  }
+
+  sizeHint(): SizeHint {
+    if (this.remaining === null) {
+      this.remaining = 0;
+      for (let i = this.front; i < this.back; i++) {
+        if (
+          !isLowSurrogate(this.str.charCodeAt(i)) ||
+          i === this.front ||
+          !isHighSurrogate(this.str.charCodeAt(i - 1))
+        ) {
+          this.remaining++;
+        }
+      }
+    }
+    return [this.remaining, this.remaining];
+  }
+
+  private consumed() {
+    if (this.remaining !== null) {
+      this.remaining--;
+    }
+  }
+}
+
+const isHighSurrogate = (c: number) => c >= 0xd800 && c <= 0xdbff;
+const isLowSurrogate = (c: number) => c >= 0xdc00 && c <= 0xdfff;
+
+const isTypedArray = (x: unknown): x is ArrayLike<unknown> =>
+  ArrayBuffer.isView(x) && !(x instanceof DataView);
+
+const toDoubleEndedIterator = <T>(
+  i: IntoDoubleEndedIter<T>,
+): DoubleEndedIterator<T> => {
+  if (typeof i === "string") {
+    return new StringIterator(i) as unknown as DoubleEndedIterator<T>;
+  }
+  if ("nextBack" in i) {
+    return i as DoubleEndedIterator<T>;
+  }
+  return new ArrayLikeIterator(i);
+};
+
+const fromIntoDoubleEndedIter = <T>(
+  i: IntoDoubleEndedIter<T>,
+): DoubleEndedIter<T> => {
+  if (i instanceof DoubleEndedIter) {
+    return i;
+  }
+  return new DoubleEndedIter(i);
+};
 
 /**
  * Iter is a wrapper over ECMAScript 2015's protocol.
@@ -87,7 +593,7 @@ export type IntoIter<T> = Iterable<T> | Iterator<T>;
  *     yield Math.random();
  *   }
  * }
- * const rands = [...new Iter(gen).take(5).map(n => n * 100).map(Math.floor)];
+ * const rands = [...new Iter(gen()).take(5).map(n => n * 100).map(Math.floor)];
  * console.log(rands);
  * // possible output: [ 23, 54, 32, 65, 38 ]
  * 
@@ -109,7 +615,8 @@ export type IntoIter<T> = Iterable<T> | Iterator<T>;
  * @template T the type to iterate over
  */
 export default class Iter<T> implements IterableIterator<T> {
-  private readonly iter: Iterator<T>;
+  protected iter: Iterator<T>;
+  private closed = false;
 
   /**
    * Wraps any object that is an iterable or an iterator in
@@ -118,13 +625,37 @@ export default class Iter<T> implements IterableIterator<T> {
    * @param iter The object to wrap
    */
   constructor(iter: IntoIter<T>) {
-    if (Symbol.iterator in iter) {
+    if (
+      typeof iter === "string" || Array.isArray(iter) || isTypedArray(iter)
+    ) {
+      this.iter = toDoubleEndedIterator(iter as IntoDoubleEndedIter<T>);
+    } else if (iter instanceof Set || iter instanceof Map) {
+      this.iter = new SizedSourceIterator<T>(iter);
+    } else if (Symbol.iterator in iter) {
       this.iter = (iter as Iterable<T>)[Symbol.iterator]();
     } else {
       this.iter = iter as Iterator<T>;
     }
   }
 
+  /**
+   * **roundRobin** creates an iterator that takes one element from each
+   * of the sources in turn, skipping the sources that are done, until
+   * all of them are done. No elements are buffered, so the merge is
+   * fair even if the sources are infinite.
+   * 
+   * @example
+   * const events = Iter.roundRobin([1, 2, 3], ["a"], [true, false]);
+   * assertEquals([...events], [1, "a", true, 2, false, 3]);
+   * 
+   * @param sources The iterables or iterators to merge
+   */
+  static roundRobin<S extends IntoIter<unknown>[]>(
+    ...sources: S
+  ): Iter<ItemOf<S[number]>> {
+    return roundRobin(sources.map(fromIntoIter)) as Iter<ItemOf<S[number]>>;
+  }
+
   [Symbol.iterator]() {
     return this;
   }
@@ -144,6 +675,130 @@ export default class Iter<T> implements IterableIterator<T> {
     return this.iter.next();
   }
 
+  /**
+   * **return** closes the iterator, calling the **return** method of
+   * the underlying iterator, if it has one, so that generators can run
+   * their `finally` blocks. The underlying iterator is closed at most
+   * once, no matter how many times this method is called.
+   * 
+   * Adapters forward this call to the iterators they were created from.
+   * It is called when a `for...of` loop is exited early, and Iter itself
+   * calls it when it stops consuming an iterator before it is done:
+   * when a function passed to it throws, when a method short-circuits
+   * (such as **find**, **all** or **cmp**) or when an adapter stops
+   * early (such as **take** or **zip**).
+   * 
+   * @example
+   * function* lines() {
+   *   const file = Deno.openSync("file.txt");
+   *   try {
+   *     yield* readLinesSync(file);
+   *   } finally {
+   *     file.close();
+   *   }
+   * }
+   * // the file is closed after the first line is found
+   * const header = new Iter(lines()).find((line) => line.startsWith("#"));
+   * 
+   * @param value The value to return
+   */
+  return(value?: unknown): IteratorReturnResult<unknown> {
+    if (!this.closed) {
+      this.closed = true;
+      this.iter.return?.(value);
+    }
+    return { value, done: true };
+  }
+
+  /**
+   * **throw** throws the error into the underlying iterator, if it has
+   * a **throw** method, and returns its result. Otherwise, it closes
+   * the iterator and throws the error back.
+   * 
+   * Adapters forward the error to the iterators they were created from
+   * and are done afterwards.
+   * 
+   * @param e The error to throw
+   */
+  throw(e?: unknown): IteratorResult<T> {
+    if (!this.closed && typeof this.iter.throw === "function") {
+      return this.iter.throw(e);
+    }
+    this.return();
+    throw e;
+  }
+
+  /**
+   * **adapter** completes the source of an adapter created from
+   * this iterator with **return** and **throw** methods, which
+   * forward the calls to this iterator. The given function is
+   * called on **return**, to close any other iterators the adapter
+   * reads from.
+   */
+  protected adapter<S extends SizedIterator<unknown>>(
+    source: S,
+    close?: () => void,
+  ): S {
+    return {
+      ...source,
+      return: (value?: unknown) => {
+        this.return();
+        close?.();
+        return { value, done: true };
+      },
+      throw: (e?: unknown) => {
+        try {
+          this.throw(e);
+        } finally {
+          this.return();
+          close?.();
+        }
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  /**
+   * **sizeHint** returns the bounds on the number of elements remaining
+   * in the iterator, without advancing it. The first element is the
+   * lower bound and the second one the upper bound, which is null if
+   * it is unknown.
+   * 
+   * Arrays, strings, typed arrays, Sets, Maps and bounded ranges
+   * provide exact bounds, and adapters adjust them accordingly.
+   * 
+   * @example
+   * assertEquals(new Iter([1, 2, 3]).sizeHint(), [3, 3]);
+   * assertEquals(new Iter([1, 2, 3]).filter((n) => n > 1).sizeHint(), [0, 3]);
+   */
+  sizeHint(): SizeHint {
+    return sizeHintOf(this.iter);
+  }
+
+  /**
+   * **len** returns the exact number of elements remaining in
+   * the iterator, without advancing it.
+   * 
+   * @returns The number of remaining elements, or None if the
+   * size hint isn't exact.
+   */
+  len(): Option<number> {
+    const [low, high] = this.sizeHint();
+    if (low === high) {
+      return Some(low);
+    }
+    return None;
+  }
+
+  /**
+   * **exhaust** makes the iterator behave as if it was consumed,
+   * without advancing the underlying iterator.
+   */
+  protected exhaust(): void {
+    this.return();
+    this.iter = exhausted;
+  }
+
   /**
    * **enumerate** creates an iterator which gives the current
    * iteration count as well as the next value.
@@ -159,7 +814,7 @@ export default class Iter<T> implements IterableIterator<T> {
       return { value: [index++, value], done };
     };
 
-    return new Iter({ next });
+    return new Iter(this.adapter({ next, sizeHint: () => this.sizeHint() }));
   }
 
   /**
@@ -185,7 +840,12 @@ export default class Iter<T> implements IterableIterator<T> {
       !done;
       ({ value, done } = this.next())
     ) {
-      init = f(init, value);
+      try {
+        init = f(init, value);
+      } catch (e) {
+        this.return();
+        throw e;
+      }
     }
     return init;
   }
@@ -193,7 +853,7 @@ export default class Iter<T> implements IterableIterator<T> {
   /**
    * **fold1** is the same as **fold**, but uses the first
    * element as the initial value for the accumulator.
-   * If the iterator is empty, it returns null, else the
+   * If the iterator is empty, it returns None, else the
    * result of the fold
    * 
    * @param f
@@ -201,18 +861,27 @@ export default class Iter<T> implements IterableIterator<T> {
   fold1(f: (acc: T, v: T) => T): Option<T> {
     const { value, done } = this.next();
     if (done) {
-      return null;
+      return None;
     }
-    return this.fold(value, f);
+    return Some(this.fold(value, f));
   }
 
   /**
-   * **count** counts the elements in the iterator by calling
-   * **next** repeatedly until the iterator is consumed.
+   * **count** counts the elements in the iterator, consuming it.
+   * 
+   * If the number of elements is known (see **len**), it is returned
+   * without iterating, so the elements are never produced: functions
+   * passed to adapters such as **map** won't be called. Otherwise,
+   * **next** is called repeatedly until the iterator is consumed.
    * 
    * @returns the number of elements in the iterator
    */
   count(): number {
+    const len = this.len();
+    if (some(len)) {
+      this.exhaust();
+      return len.value;
+    }
     return this.fold(0, (acc) => acc + 1);
   }
 
@@ -228,10 +897,17 @@ export default class Iter<T> implements IterableIterator<T> {
 
   /**
    * @returns the last element in the iterator, if any, consuming
-   * the iterator.
+   * the iterator. Sources that can be iterated from the back and know
+   * their length, such as arrays and strings, are not walked through.
    */
   last(): Option<T> {
-    return this.fold<Option<T>>(null, (_, v) => v);
+    const iter = this.iter as Partial<DoubleEndedIterator<T>>;
+    if (iter.nextBack === undefined || !some(this.len())) {
+      return this.fold<Option<T>>(None, (_, v) => Some(v));
+    }
+    const res = iter.nextBack();
+    this.exhaust();
+    return toOption(res);
   }
 
   /**
@@ -242,6 +918,7 @@ export default class Iter<T> implements IterableIterator<T> {
    * This function works the same as **fold**, except that it short-circuits
    * when an error occurs. If all the function calls succeed, the final value
    * of the accumulator is returned, else the first error that occured is.
+   * The iterator is closed when an error occurs or the function throws.
    * 
    * @example
    * const sum = new Iter(stringArray).tryFold(0, (acc, v) => {
@@ -269,10 +946,11 @@ export default class Iter<T> implements IterableIterator<T> {
       !done;
       ({ value: v, done } = this.next())
     ) {
-      const res = f(init, v);
+      const res = callOrClose(this, f, init, v);
       if (ok(res)) {
         init = res.value;
       } else {
+        this.return();
         return res;
       }
     }
@@ -293,51 +971,207 @@ export default class Iter<T> implements IterableIterator<T> {
   }
 
   /**
-   * **find** finds the first element in the iterator that satisfies the
-   * given predicate, consuming all the previous elements.
+   * **tryReduce** is the same as **fold1**, but the function may fail,
+   * in which case the iteration stops and the error is returned.
    * 
-   * @param p The predicate to be satisfied
-   * @returns The first element satisfying the predicate, if any
-  */
-  find(p: (v: T) => boolean): Option<T>;
-  find<S extends T>(p: (v: T) => v is S): Option<S>;
-  find(p: (v: T) => boolean): Option<T> {
-    return this.tryFold<null, T>(null, (_, value) => {
-      if (p(value)) {
-        return { success: false, value };
-      }
-      return { success: true, value: null };
-    }).value;
+   * @example
+   * const total = new Iter(amounts).tryReduce((acc, v) =>
+   *   acc + v > LIMIT ? Err("limit exceeded") : Ok(acc + v)
+   * );
+   * 
+   * @param f The function to be applied
+   * @returns The final value of the accumulator, or None if the iterator
+   * is empty, if the function succeeds, else the first error that occured
+   */
+  tryReduce<E>(f: (acc: T, v: T) => Result<T, E>): Result<Option<T>, E> {
+    const { value, done } = this.next();
+    if (done) {
+      return Ok(None);
+    }
+    const res = this.tryFold(value, f);
+    return ok(res) ? Ok(Some(res.value)) : res;
   }
 
   /**
-   * **findMap** finds the first element that after applying the function
-   * is not null, consuming all the previous elements.
+   * **tryMap** creates an iterator that applies the given fallible
+   * function to each element and yields the results, up to and including
+   * the first error. The iterator is done after an error, so pipelines
+   * stop reading the source as soon as something fails.
    * 
    * @example
-   * function coolParseInt(s: string): Option<number> {
-   *   const num = parseInt(s, 10);
-   *   if (Number.isNaN(num)) {
-   *     return null;
-   *   }
-   *   return num;
+   * const rows = new Iter(lines)
+   *   .tryMap(parseRow)
+   *   .tryCollect(Array);
+   * if (ok(rows)) {
+   *   console.log(`Parsed ${rows.value.length} rows`);
    * }
    * 
-   * const arr = ["lol", "NaN", "2", "5"];
-   * const firstNumber = new Iter(arr).findMap(coolParseInt);
-   * assertStrictEquals(firstNumber, 2);
-   * 
-   * @param f The function to apply
-   * @returns The first non-null value after the function was applied, if any
+   * @param f The fallible function to apply
    */
-  findMap<U>(f: (v: T) => Option<U>): Option<U> {
-    return this.tryFold<null, U>(null, (_, v) => {
-      const value = f(v);
-      if (some(value)) {
+  tryMap<U, E>(f: (v: T) => Result<U, E>): Iter<Result<U, E>> {
+    let failed = false;
+    const next = (): IteratorResult<Result<U, E>> => {
+      if (failed) {
+        return { value: undefined, done: true };
+      }
+      const { value, done } = this.next();
+      if (done) {
+        return { value, done };
+      }
+      const res = callOrClose(this, f, value);
+      if (!ok(res)) {
+        failed = true;
+        this.return();
+      }
+      return { value: res };
+    };
+
+    const sizeHint = (): SizeHint => {
+      if (failed) {
+        return [0, 0];
+      }
+      return upperHint(this.sizeHint());
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **find** finds the first element in the iterator that satisfies the
+   * given predicate, consuming all the previous elements.
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The first element satisfying the predicate, if any
+  */
+  find(p: (v: T) => boolean): Option<T>;
+  find<S extends T>(p: (v: T) => v is S): Option<S>;
+  find(p: (v: T) => boolean): Option<T> {
+    return this.findMap((v) => p(v) ? Some(v) : None);
+  }
+
+  /**
+   * **findLast** finds the last element in the iterator that satisfies
+   * the given predicate, consuming the iterator.
+   * 
+   * @example
+   * const last = new Iter([1, 2, 3, 4]).findLast((n) => n % 2 === 1);
+   * assertEquals(last, Some(3));
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The last element satisfying the predicate, if any
+   */
+  findLast(p: (v: T) => boolean): Option<T>;
+  findLast<S extends T>(p: (v: T) => v is S): Option<S>;
+  findLast(p: (v: T) => boolean): Option<T> {
+    return this.fold<Option<T>>(None, (found, v) => p(v) ? Some(v) : found);
+  }
+
+  /**
+   * **position** searches for an element satisfying the predicate
+   * and returns its index, consuming all the elements up to it.
+   * 
+   * @example
+   * const index = new Iter(["a", "b", "c"]).position((s) => s === "b");
+   * assertEquals(index, Some(1));
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The index of the first element satisfying the predicate, if any
+   */
+  position(p: (v: T) => boolean): Option<number> {
+    const res = this.tryFold(
+      0,
+      (index, v) => p(v) ? Err(index) : Ok(index + 1),
+    );
+    return ok(res) ? None : Some(res.value);
+  }
+
+  /**
+   * **contains** checks if the iterator yields the given value,
+   * consuming all the elements up to it. Elements are compared
+   * as Array's **includes** does (SameValueZero).
+   * 
+   * @example
+   * assert(new Iter([1, NaN, 3]).contains(NaN));
+   * 
+   * @param value The value to search for
+   */
+  contains(value: T): boolean {
+    return this.any((v) => sameValueZero(v, value));
+  }
+
+  /**
+   * **advanceBy** skips the next n elements, or fewer if the iterator
+   * ends sooner, and returns the number of skipped elements.
+   * 
+   * It takes constant time on array-backed sources, or on iterators
+   * that implement **advanceBy** themselves (see **SizedIterator**).
+   * 
+   * @example
+   * const iter = new Iter([1, 2, 3]);
+   * assertStrictEquals(iter.advanceBy(2), 2);
+   * assertStrictEquals(iter.advanceBy(2), 1);
+   * 
+   * @param n The number of elements to skip
+   */
+  advanceBy(n: number): number {
+    checkCount(n, "number of elements");
+    const { advanceBy } = this.iter as SizedIterator<T>;
+    if (typeof advanceBy === "function") {
+      return advanceBy.call(this.iter, n);
+    }
+    let skipped = 0;
+    while (skipped < n && !this.next().done) {
+      skipped++;
+    }
+    return skipped;
+  }
+
+  /**
+   * **nth** returns the nth element of the iterator, counting from 0,
+   * consuming it and all the previous elements. It takes constant time
+   * on array-backed sources, as **advanceBy** does.
+   * 
+   * @example
+   * assertEquals(new Iter("abc").nth(1), Some("b"));
+   * assertEquals(new Iter("abc").nth(3), None);
+   * 
+   * @param n The index of the element
+   */
+  nth(n: number): Option<T> {
+    this.advanceBy(n);
+    const { value, done } = this.next();
+    return done ? None : Some(value);
+  }
+
+  /**
+   * **findMap** finds the first element that after applying the function
+   * is Some, consuming all the previous elements.
+   * 
+   * @example
+   * function coolParseInt(s: string): Option<number> {
+   *   const num = parseInt(s, 10);
+   *   if (Number.isNaN(num)) {
+   *     return None;
+   *   }
+   *   return Some(num);
+   * }
+   * 
+   * const arr = ["lol", "NaN", "2", "5"];
+   * const firstNumber = new Iter(arr).findMap(coolParseInt);
+   * assertEquals(firstNumber, Some(2));
+   * 
+   * @param f The function to apply
+   * @returns The first Some value after the function was applied, if any
+   */
+  findMap<U>(f: (v: T) => Option<U>): Option<U> {
+    const res = this.tryFold<undefined, Option<U>>(undefined, (_, v) => {
+      const value = f(v);
+      if (some(value)) {
         return { success: false, value };
       }
-      return { success: true, value: null };
-    }).value;
+      return { success: true, value: undefined };
+    });
+    return ok(res) ? None : res.value;
   }
 
   /**
@@ -355,27 +1189,31 @@ export default class Iter<T> implements IterableIterator<T> {
   filter<S extends T>(p: (v: T) => v is S): Iter<S>;
   filter(p: (v: T) => boolean): Iter<T> {
     const next = (): IteratorResult<T> => {
-      const value = this.find(p);
-      if (some(value)) {
-        return { value };
+      for (let res = this.next(); !res.done; res = this.next()) {
+        if (callOrClose(this, p, res.value)) {
+          return res;
+        }
       }
-      return { value, done: true };
+      return { value: undefined, done: true };
     };
 
-    return new Iter({ next });
+    return new Iter(
+      this.adapter({ next, sizeHint: () => upperHint(this.sizeHint()) }),
+    );
   }
 
   /**
-   * **filterMap** creates an iterator that returns only the non-null elements
-   * resulted from applying the passed function to the elements of the old iterator.
+   * **filterMap** creates an iterator that returns only the values of the Some
+   * elements resulted from applying the passed function to the elements of
+   * the old iterator.
    * 
    * @example
    * function coolParseInt(s: string): Option<number> {
    *   const num = parseInt(s, 10);
    *   if (Number.isNaN(num)) {
-   *     return null;
+   *     return None;
    *   }
-   *   return num;
+   *   return Some(num);
    * }
    * const numbers = [...new Iter(["a", "b", "1", "2", "c"]).filterMap(coolParseInt)];
    * assertEquals(numbers, [1, 2]);
@@ -384,14 +1222,18 @@ export default class Iter<T> implements IterableIterator<T> {
    */
   filterMap<U>(f: (v: T) => Option<U>): Iter<U> {
     const next = (): IteratorResult<U> => {
-      const value = this.findMap(f);
-      if (some(value)) {
-        return { value };
+      for (let res = this.next(); !res.done; res = this.next()) {
+        const mapped = callOrClose(this, f, res.value);
+        if (some(mapped)) {
+          return { value: mapped.value };
+        }
       }
-      return { value, done: true };
+      return { value: undefined, done: true };
     };
 
-    return new Iter({ next });
+    return new Iter(
+      this.adapter({ next, sizeHint: () => upperHint(this.sizeHint()) }),
+    );
   }
 
   /**
@@ -429,10 +1271,341 @@ export default class Iter<T> implements IterableIterator<T> {
       if (done) {
         return { value, done };
       }
-      return { value: f(value) };
+      return { value: callOrClose(this, f, value) };
+    };
+
+    return new Iter(this.adapter({ next, sizeHint: () => this.sizeHint() }));
+  }
+
+  /**
+   * **inspect** creates an iterator that calls the given function
+   * on each element before yielding it, which is useful to debug
+   * or to log the elements passing through a pipeline.
+   * 
+   * Unlike **map**, its size hint is never exact, so that **count**
+   * doesn't skip the elements: the function is called for every
+   * element that is consumed.
+   * 
+   * @example
+   * const seen: number[] = [];
+   * const sum = new Iter([1, 2, 3])
+   *   .inspect((v) => seen.push(v))
+   *   .filter((v) => v % 2 === 1)
+   *   .sum();
+   * assertEquals(seen, [1, 2, 3]);
+   * assertStrictEquals(sum, 4);
+   * 
+   * @param f The function to call on each element
+   */
+  inspect(f: (v: T) => void): Iter<T> {
+    const next = (): IteratorResult<T> => {
+      const res = this.next();
+      if (!res.done) {
+        callOrClose(this, f, res.value);
+      }
+      return res;
+    };
+
+    const sizeHint = () => upperHint(this.sizeHint());
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **take** creates an iterator that yields the first n elements,
+   * or fewer if the underlying iterator ends sooner.
+   * 
+   * After n elements were yielded, the underlying iterator is not
+   * advanced anymore, so it can be used on infinite iterators.
+   * 
+   * @example
+   * const firstThree = [...new Iter(range()).take(3)];
+   * assertEquals(firstThree, [0, 1, 2]);
+   * 
+   * @param n The number of elements to take
+   */
+  take(n: number): Iter<T> {
+    checkCount(n, "number of elements");
+    let remaining = n;
+    const next = (): IteratorResult<T> => {
+      if (remaining <= 0) {
+        return this.return();
+      }
+      remaining--;
+      return this.next();
+    };
+
+    return new Iter(this.adapter({
+      next,
+      sizeHint: () => takeHint(this.sizeHint(), remaining),
+    }));
+  }
+
+  /**
+   * **skip** creates an iterator that skips the first n elements.
+   * 
+   * The elements are skipped lazily, when the returned iterator
+   * is first advanced.
+   * 
+   * @example
+   * const rest = [...new Iter([1, 2, 3, 4]).skip(2)];
+   * assertEquals(rest, [3, 4]);
+   * 
+   * @param n The number of elements to skip
+   */
+  skip(n: number): Iter<T> {
+    checkCount(n, "number of elements");
+    let remaining = n;
+    const next = (): IteratorResult<T> => {
+      while (remaining > 0) {
+        remaining--;
+        if (this.next().done) {
+          remaining = 0;
+          return { value: undefined, done: true };
+        }
+      }
+      return this.next();
+    };
+
+    return new Iter(this.adapter({
+      next,
+      sizeHint: () => skipHint(this.sizeHint(), remaining),
+    }));
+  }
+
+  /**
+   * **takeWhile** creates an iterator that yields elements as long
+   * as they satisfy the given predicate.
+   * 
+   * The first element that doesn't satisfy the predicate is consumed
+   * and discarded, and the iteration ends.
+   * 
+   * @example
+   * const small = [...new Iter([1, 2, 5, 1]).takeWhile((n) => n < 3)];
+   * assertEquals(small, [1, 2]);
+   * 
+   * @param p The predicate to be satisfied
+   */
+  takeWhile(p: (v: T) => boolean): Iter<T>;
+  takeWhile<S extends T>(p: (v: T) => v is S): Iter<S>;
+  takeWhile(p: (v: T) => boolean): Iter<T> {
+    let finished = false;
+    const next = (): IteratorResult<T> => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      const { value, done } = this.next();
+      if (done) {
+        finished = true;
+        return { value, done };
+      }
+      if (!callOrClose(this, p, value)) {
+        finished = true;
+        return this.return();
+      }
+      return { value };
+    };
+
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      return upperHint(this.sizeHint());
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **skipWhile** creates an iterator that skips elements as long
+   * as they satisfy the given predicate, and then yields all the
+   * remaining elements.
+   * 
+   * @example
+   * const big = [...new Iter([1, 2, 5, 1]).skipWhile((n) => n < 3)];
+   * assertEquals(big, [5, 1]);
+   * 
+   * @param p The predicate to be satisfied
+   */
+  skipWhile(p: (v: T) => boolean): Iter<T> {
+    let skipping = true;
+    const next = (): IteratorResult<T> => {
+      if (!skipping) {
+        return this.next();
+      }
+      skipping = false;
+      for (let res = this.next(); !res.done; res = this.next()) {
+        if (!callOrClose(this, p, res.value)) {
+          return res;
+        }
+      }
+      return { value: undefined, done: true };
+    };
+
+    const sizeHint = (): SizeHint => {
+      if (skipping) {
+        return upperHint(this.sizeHint());
+      }
+      return this.sizeHint();
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **mapWhile** creates an iterator that applies the given function
+   * to the elements, yielding the values of the results until the
+   * function returns None.
+   * 
+   * @example
+   * const numbers = [...new Iter(["1", "2", "a", "3"]).mapWhile(coolParseInt)];
+   * assertEquals(numbers, [1, 2]);
+   * 
+   * @param f The function to apply
+   */
+  mapWhile<U>(f: (v: T) => Option<U>): Iter<U> {
+    let finished = false;
+    const next = (): IteratorResult<U> => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      const { value, done } = this.next();
+      if (done) {
+        finished = true;
+        return { value, done };
+      }
+      const mapped = callOrClose(this, f, value);
+      if (some(mapped)) {
+        return { value: mapped.value };
+      }
+      finished = true;
+      return this.return();
+    };
+
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      return upperHint(this.sizeHint());
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **scan** creates an iterator that threads a state through the
+   * elements. The given function receives the current state and an
+   * element and returns the value to yield along with the next state,
+   * or None to end the iteration.
+   * 
+   * @example
+   * // Yield the running totals while they stay below 10
+   * const totals = new Iter([3, 4, 2, 5, 1])
+   *   .scan(0, (total, v) => total + v < 10 ? Some([total + v, total + v]) : None);
+   * assertEquals([...totals], [3, 7, 9]);
+   * 
+   * @param init The initial state
+   * @param f The function that computes the value and the next state
+   */
+  scan<S, U>(init: S, f: (state: S, v: T) => Option<[U, S]>): Iter<U> {
+    let state = init;
+    let finished = false;
+    const next = (): IteratorResult<U> => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      const { value, done } = this.next();
+      if (done) {
+        finished = true;
+        return { value, done };
+      }
+      const res = callOrClose(this, f, state, value);
+      if (some(res)) {
+        state = res.value[1];
+        return { value: res.value[0] };
+      }
+      finished = true;
+      return this.return();
+    };
+
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      return upperHint(this.sizeHint());
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **accumulate** creates an iterator that yields the running results
+   * of folding the elements with the given function, starting with the
+   * first element. It is the lazy counterpart of **fold1**: the last
+   * yielded value is the result of the fold.
+   * 
+   * @example
+   * const prefixSums = [...new Iter([1, 2, 3, 4]).accumulate((a, b) => a + b)];
+   * assertEquals(prefixSums, [1, 3, 6, 10]);
+   * 
+   * @param f The function that combines the accumulator with an element
+   */
+  accumulate(f: (acc: T, v: T) => T): Iter<T> {
+    let acc: Option<T> = None;
+    const next = (): IteratorResult<T> => {
+      const { value, done } = this.next();
+      if (done) {
+        return { value, done };
+      }
+      acc = Some(some(acc) ? callOrClose(this, f, acc.value, value) : value);
+      return { value: acc.value };
+    };
+
+    return new Iter(this.adapter({ next, sizeHint: () => this.sizeHint() }));
+  }
+
+  /**
+   * **stepBy** creates an iterator that yields the first element
+   * and then every step-th element after it.
+   * 
+   * @example
+   * const even = [...new Iter(range()).stepBy(2).take(3)];
+   * assertEquals(even, [0, 2, 4]);
+   * 
+   * @param step The distance between the yielded elements. Must be
+   * a positive integer.
+   */
+  stepBy(step: number): Iter<T> {
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new RangeError(`Iter: Invalid step ${step}, must be positive`);
+    }
+
+    let first = true;
+    const next = (): IteratorResult<T> => {
+      if (first) {
+        first = false;
+        return this.next();
+      }
+      for (let i = 1; i < step; i++) {
+        if (this.next().done) {
+          return { value: undefined, done: true };
+        }
+      }
+      return this.next();
+    };
+
+    const stepped = (n: number) => {
+      if (first) {
+        return n === 0 ? 0 : 1 + Math.floor((n - 1) / step);
+      }
+      return Math.floor(n / step);
+    };
+    const sizeHint = (): SizeHint => {
+      const [low, high] = this.sizeHint();
+      return [stepped(low), high !== null ? stepped(high) : null];
     };
 
-    return new Iter({ next });
+    return new Iter(this.adapter({ next, sizeHint }));
   }
 
   /**
@@ -456,6 +1629,10 @@ export default class Iter<T> implements IterableIterator<T> {
     cmp: Comparator<T, U>,
   ): number {
     const other = fromIntoIter(i);
+    const close = () => {
+      this.return();
+      other.return();
+    };
 
     while (true) {
       const lhs = this.next();
@@ -465,14 +1642,23 @@ export default class Iter<T> implements IterableIterator<T> {
         if (rhs.done) {
           return 0;
         }
+        other.return();
         return -1;
       }
       if (rhs.done) {
+        this.return();
         return 1;
       }
 
-      const cmpRes = cmp(lhs.value, rhs.value);
+      let cmpRes: number;
+      try {
+        cmpRes = cmp(lhs.value, rhs.value);
+      } catch (e) {
+        close();
+        throw e;
+      }
       if (cmpRes !== 0) {
+        close();
         return cmpRes;
       }
     }
@@ -486,15 +1672,7 @@ export default class Iter<T> implements IterableIterator<T> {
    * your custom comparator.
    */
   cmp(i: IntoIter<T>): number {
-    return this.cmpBy(i, (lhs, rhs) => {
-      if (lhs < rhs) {
-        return -1;
-      }
-      if (lhs > rhs) {
-        return 1;
-      }
-      return 0;
-    });
+    return this.cmpBy(i, totalCmp);
   }
 
   /**
@@ -513,19 +1691,36 @@ export default class Iter<T> implements IterableIterator<T> {
    */
   eqBy<U>(i: IntoIter<U>, eq: (lhs: T, rhs: U) => boolean): boolean {
     const other = fromIntoIter(i);
+    const close = () => {
+      this.return();
+      other.return();
+    };
 
     while (true) {
       const lhs = this.next();
       const rhs = other.next();
 
       if (lhs.done) {
-        return !!rhs.done;
+        if (!rhs.done) {
+          other.return();
+          return false;
+        }
+        return true;
       }
       if (rhs.done) {
+        this.return();
         return false;
       }
 
-      if (!eq(lhs.value, rhs.value)) {
+      let isEq: boolean;
+      try {
+        isEq = eq(lhs.value, rhs.value);
+      } catch (e) {
+        close();
+        throw e;
+      }
+      if (!isEq) {
+        close();
         return false;
       }
     }
@@ -598,15 +1793,14 @@ export default class Iter<T> implements IterableIterator<T> {
    * 
    * function cmpNumbers(lhs: nummber, rhs: number): Option<number> {
    *   if (Number.isNaN(lhs) || Number.isNaN(rhs)) {
-   *     return null;
+   *     return None;
    *   }
-   *   return lhs - rhs;
+   *   return Some(lhs - rhs);
    * }
    * 
    * const lhs = [1.0, 2.3, 4.6, 7.8];
-   * assert(new Iter(lhs).partialCmpBy([1.0, 2.3, 4.6, 7.8], cmpNumbers) === 0);
-   * assert(new Iter(lhs).partialCmpBy([1.0, 2.2, NaN, 7.8], cmpNumbers) > 0);
-   * assert(new Iter(lhs).partialCmpBy([1.0, 2.3, NaN, 7.8], cmpNumbers) === null);
+   * assertEquals(new Iter(lhs).partialCmpBy([1.0, 2.3, 4.6, 7.8], cmpNumbers), Some(0));
+   * assertEquals(new Iter(lhs).partialCmpBy([1.0, 2.3, NaN, 7.8], cmpNumbers), None);
    * 
    * @param i The iterable or iterator to compare to.
    * @param cmp The comparison function.
@@ -616,6 +1810,10 @@ export default class Iter<T> implements IterableIterator<T> {
     cmp: PartialComparator<T, U>,
   ): Option<number> {
     const other = fromIntoIter(i);
+    const close = () => {
+      this.return();
+      other.return();
+    };
 
     while (true) {
       const lhs = this.next();
@@ -623,16 +1821,25 @@ export default class Iter<T> implements IterableIterator<T> {
 
       if (lhs.done) {
         if (rhs.done) {
-          return 0;
+          return Some(0);
         }
-        return -1;
+        other.return();
+        return Some(-1);
       }
       if (rhs.done) {
-        return 1;
+        this.return();
+        return Some(1);
       }
 
-      const cmpRes = cmp(lhs.value, rhs.value);
-      if (!some(cmpRes) || cmpRes !== 0) {
+      let cmpRes: Option<number>;
+      try {
+        cmpRes = cmp(lhs.value, rhs.value);
+      } catch (e) {
+        close();
+        throw e;
+      }
+      if (!some(cmpRes) || cmpRes.value !== 0) {
+        close();
         return cmpRes;
       }
     }
@@ -642,10 +1849,11 @@ export default class Iter<T> implements IterableIterator<T> {
    * **all** tests if every element of the iterator satisfies
    * the given predicate.
    * 
-   * This function short-circuits on first occurence of false,
-   * which means the rest of the elements after the first that
-   * does not satisfy the predicate are still available for
-   * iteration.
+   * This function short-circuits on first occurence of false
+   * and closes the iterator, using **return**. Sources without a
+   * **return** method, such as arrays, are not affected, so the
+   * rest of the elements after the first that does not satisfy
+   * the predicate are still available for iteration.
    * 
    * @example
    * 
@@ -675,9 +1883,11 @@ export default class Iter<T> implements IterableIterator<T> {
    * **any** tests if any element in the iterator satisfies the
    * predicate.
    * 
-   * This function short-circuits on the first occurrence of true,
-   * which means the rest of elements after the first element
-   * that satisfied the predicate are still available for iteration.
+   * This function short-circuits on the first occurrence of true
+   * and closes the iterator, using **return**. Sources without a
+   * **return** method, such as arrays, are not affected, so the
+   * rest of elements after the first element that satisfied the
+   * predicate are still available for iteration.
    * 
    * @example
    * 
@@ -707,7 +1917,7 @@ export default class Iter<T> implements IterableIterator<T> {
    * **maxBy** returns the element with the maximum value with
    * respect to the specified comparison function
    * 
-   * Returns null if the iterator is empty.
+   * Returns None if the iterator is empty.
    * 
    * @param cmp The comparison function to use
    */
@@ -724,7 +1934,7 @@ export default class Iter<T> implements IterableIterator<T> {
    * **max** returns the maximum element in the iterator, with
    * respect to operator `>`.
    * 
-   * Returns null if the iterator is empty.
+   * Returns None if the iterator is empty.
    */
   max(): Option<T> {
     return this.maxBy(maxCmp);
@@ -734,7 +1944,7 @@ export default class Iter<T> implements IterableIterator<T> {
    * **maxByKey** return the element that gives the maximum value
    * from the specified function.
    * 
-   * Returns null if the iterator is empty.
+   * Returns None if the iterator is empty.
    * 
    * @param f The function to get the value to compare
    * @param cmp Optional comparator, if operator `>` doesn't suffice.
@@ -744,16 +1954,16 @@ export default class Iter<T> implements IterableIterator<T> {
       cmp(lhs, rhs)
     );
     if (some(res)) {
-      return res[1];
+      return Some(res.value[1]);
     }
-    return null;
+    return None;
   }
 
   /**
    * **minBy** returns the minimum element in the iterator, with
    * respect to the specified comparison function.
    * 
-   * Returns null if the iterator is empty.
+   * Returns None if the iterator is empty.
    * 
    * @param cmp The comparison function
    */
@@ -770,7 +1980,7 @@ export default class Iter<T> implements IterableIterator<T> {
    * **min** returns the minimum element in the iterator, with
    * respect to operator `<`.
    * 
-   * Returns null if the iterator is empty.
+   * Returns None if the iterator is empty.
    */
   min(): Option<T> {
     return this.minBy(minCmp);
@@ -780,7 +1990,7 @@ export default class Iter<T> implements IterableIterator<T> {
    * **minByKey** return the element that gives the minimum value
    * from the specified function.
    * 
-   * Returns null if the iterator is empty.
+   * Returns None if the iterator is empty.
    * 
    * @param f The function to get the value to compare
    * @param cmp Optional comparator, if operator `<` doesn't suffice.
@@ -790,107 +2000,2566 @@ export default class Iter<T> implements IterableIterator<T> {
       cmp(lhs, rhs)
     );
     if (some(res)) {
-      return res[1];
+      return Some(res.value[1]);
     }
-    return null;
+    return None;
   }
 
   /**
-   * **zip** 'zips up' two iterators into a single iterator of pairs.
+   * **sum** adds all the numbers in the iterator to the start value,
+   * consuming it. Without a start value, it is 0 or 0n, depending on
+   * the type of the first element. As the type of the elements of an
+   * empty iterator can't be known, its sum is then 0, so pass 0n
+   * to get a bigint in any case.
    * 
-   * It returns a new iterator that will iterate over two other iterators,
-   * returning a tuple where the first element comes from the first iterator,
-   * and the second element comes from the second iterator.
+   * @example
+   * assertStrictEquals(new Iter([1, 2, 3]).sum(), 6);
+   * assertStrictEquals(new Iter([1n, 2n]).sum(), 3n);
    * 
-   * In other words, it zips two iterators together, into a single one.
+   * @param start The value to add the numbers to, 0 or 0n by default
+   */
+  sum(this: Iter<number>, start?: number): number;
+  sum(this: Iter<bigint>, start?: bigint): bigint;
+  sum(this: Iter<number | bigint>, start?: number | bigint) {
+    return withStart(
+      this,
+      start,
+      0,
+      (iter, start) =>
+        iter.fold(start, (acc, v) => (acc as number) + (v as number)),
+    );
+  }
+
+  /**
+   * **checkedSum** is the same as **sum**, but it stops as soon as
+   * the sum leaves the safe integer range (or is NaN) and returns
+   * an error, as the sum can't be trusted to be exact anymore.
    * 
-   * If either iterator is done before the other, this iterator will be done.
+   * @example
+   * const sum = new Iter([Number.MAX_SAFE_INTEGER, 1]).checkedSum();
+   * assert(err(sum));
    * 
-   * @param other The iterable to zip with
+   * @param start The value to add the numbers to, 0 or 0n by default
    */
-  zip<U>(other: IntoIter<U>): Iter<[T, U]> {
-    const iter = new Iter(other);
-    const next = (): IteratorResult<[T, U]> => {
-      const lhs = this.next();
-      if (lhs.done) {
-        return { value: undefined, done: true };
+  checkedSum(this: Iter<number>, start?: number): Result<number, RangeError>;
+  checkedSum(this: Iter<bigint>, start?: bigint): Result<bigint, RangeError>;
+  checkedSum(
+    this: Iter<number | bigint>,
+    start?: number | bigint,
+  ): Result<number | bigint, RangeError> {
+    return withStart(
+      this,
+      start,
+      0,
+      (iter, start) =>
+        checkedFold(
+          iter,
+          start,
+          (acc, v) => (acc as number) + (v as number),
+          "sum",
+        ),
+    );
+  }
+
+  /**
+   * **product** multiplies all the numbers in the iterator with
+   * the start value, consuming it. Without a start value, it is 1 or 1n,
+   * depending on the type of the first element, and the product of an
+   * empty iterator is 1, as for **sum**.
+   * 
+   * @example
+   * assertStrictEquals(new Iter([2, 3, 4]).product(), 24);
+   * assertStrictEquals(new Iter([2n, 3n]).product(), 6n);
+   * 
+   * @param start The value to multiply the numbers with, 1 or 1n by default
+   */
+  product(this: Iter<number>, start?: number): number;
+  product(this: Iter<bigint>, start?: bigint): bigint;
+  product(this: Iter<number | bigint>, start?: number | bigint) {
+    return withStart(
+      this,
+      start,
+      1,
+      (iter, start) =>
+        iter.fold(start, (acc, v) => (acc as number) * (v as number)),
+    );
+  }
+
+  /**
+   * **checkedProduct** is the same as **product**, but it stops as soon
+   * as the product leaves the safe integer range (or is NaN) and returns
+   * an error.
+   * 
+   * @param start The value to multiply the numbers with, 1 or 1n by default
+   */
+  checkedProduct(
+    this: Iter<number>,
+    start?: number,
+  ): Result<number, RangeError>;
+  checkedProduct(
+    this: Iter<bigint>,
+    start?: bigint,
+  ): Result<bigint, RangeError>;
+  checkedProduct(
+    this: Iter<number | bigint>,
+    start?: number | bigint,
+  ): Result<number | bigint, RangeError> {
+    return withStart(
+      this,
+      start,
+      1,
+      (iter, start) =>
+        checkedFold(
+          iter,
+          start,
+          (acc, v) => (acc as number) * (v as number),
+          "product",
+        ),
+    );
+  }
+
+  /**
+   * **fsum** adds all the numbers in the iterator, consuming it.
+   * Unlike **sum**, it compensates for the rounding errors of
+   * floating point additions (using the Kahan-Babuska-Neumaier
+   * algorithm), so the result is much more accurate. Sums of
+   * bigints are always exact, so use **sum** for them.
+   * 
+   * @example
+   * const tenths = new Array(10).fill(0.1);
+   * assertStrictEquals(new Iter(tenths).sum(), 0.9999999999999999);
+   * assertStrictEquals(new Iter(tenths).fsum(), 1);
+   */
+  fsum(this: Iter<number>): number {
+    let sum = 0;
+    let compensation = 0;
+    this.forEach((v) => {
+      const t = sum + v;
+      if (Math.abs(sum) >= Math.abs(v)) {
+        compensation += sum - t + v;
+      } else {
+        compensation += v - t + sum;
       }
-      const rhs = iter.next();
-      if (rhs.done) {
+      sum = t;
+    });
+    // The compensation is NaN if the sum overflowed, and useless
+    // if the sum is already NaN.
+    return Number.isFinite(sum) ? sum + compensation : sum;
+  }
+
+  /**
+   * **mean** returns the arithmetic mean of the numbers in the iterator,
+   * consuming it. Bigints are summed exactly, and the mean is
+   * a floating point number.
+   * 
+   * Returns None if the iterator is empty.
+   */
+  mean(this: Iter<number | bigint>): Option<number> {
+    let count = 0;
+    const sum = this.fold1((acc, v) => {
+      count++;
+      return (acc as number) + (v as number);
+    });
+    return some(sum) ? Some(Number(sum.value) / (count + 1)) : None;
+  }
+
+  /**
+   * **variance** returns the population variance of the numbers in
+   * the iterator, consuming it. For the sample variance, multiply
+   * the result by n / (n - 1), where n is the number of elements.
+   * 
+   * Returns None if the iterator is empty.
+   */
+  variance(this: Iter<number | bigint>): Option<number> {
+    // Welford's algorithm, which is stable and needs a single pass.
+    let count = 0;
+    let mean = 0;
+    let m2 = 0;
+    this.forEach((v) => {
+      const x = Number(v);
+      const delta = x - mean;
+      mean += delta / ++count;
+      m2 += delta * (x - mean);
+    });
+    return count === 0 ? None : Some(m2 / count);
+  }
+
+  /**
+   * **minMax** returns both the minimum and the maximum number in
+   * the iterator, consuming it in a single pass.
+   * 
+   * Returns None if the iterator is empty or if it contains NaN,
+   * as NaN can't be compared to other numbers (see **cmpNumbers**
+   * in util.ts). The iteration stops at the first NaN.
+   * 
+   * @example
+   * assertEquals(new Iter([3, 1, 2]).minMax(), Some([1, 3]));
+   * assertEquals(new Iter([3, NaN, 2]).minMax(), None);
+   */
+  minMax<N extends number | bigint>(this: Iter<N>): Option<[N, N]> {
+    const res = this.tryFold<Option<[N, N]>, undefined>(None, (acc, v) => {
+      const [min, max]: [N, N] = some(acc) ? acc.value : [v, v];
+      const lo = cmpNumeric(v, min);
+      const hi = cmpNumeric(v, max);
+      if (none(lo) || none(hi)) {
+        return Err(undefined);
+      }
+      return Ok(Some<[N, N]>([lo.value < 0 ? v : min, hi.value > 0 ? v : max]));
+    });
+    return ok(res) ? res.value : None;
+  }
+
+  /**
+   * **isSortedBy** checks if the elements of the iterator are sorted
+   * with respect to the given comparator, consuming the iterator up to
+   * the first element that is out of order. If the comparator is partial,
+   * elements that can't be compared are considered out of order.
+   * 
+   * @example
+   * assert(new Iter([3, 2, 1]).isSortedBy((lhs, rhs) => rhs - lhs));
+   * 
+   * @param cmp The comparator or partial comparator to use
+   */
+  isSortedBy(cmp: Comparator<T, T> | PartialComparator<T, T>): boolean {
+    const { value, done } = this.next();
+    if (done) {
+      return true;
+    }
+    return this.tryFold(
+      value,
+      (prev, v) => isOrdered(cmp(prev, v)) ? Ok(v) : Err(undefined),
+    ).success;
+  }
+
+  /**
+   * **isSorted** checks if the elements of the iterator are sorted
+   * with respect to operators `<` and `>`, as **isSortedBy** does.
+   * Iterators containing NaN aren't sorted, as NaN can't be compared.
+   * 
+   * @example
+   * assert(new Iter([1, 2, 2, 3]).isSorted());
+   * assert(!new Iter([1, NaN, 3]).isSorted());
+   */
+  isSorted(): boolean {
+    return this.isSortedBy(partialCmp);
+  }
+
+  /**
+   * **isSortedByKey** checks if the keys returned by the given function
+   * for the elements of the iterator are sorted, as **isSortedBy** does.
+   * 
+   * @example
+   * assert(new Iter(["a", "bb", "ccc"]).isSortedByKey((s) => s.length));
+   * 
+   * @param f The function to get the key to compare
+   * @param cmp Optional comparator, if operators `<` and `>` don't suffice.
+   */
+  isSortedByKey<U>(
+    f: (v: T) => U,
+    cmp: Comparator<U, U> | PartialComparator<U, U> = partialCmp,
+  ): boolean {
+    return this.map(f).isSortedBy(cmp);
+  }
+
+  /**
+   * **sorted** creates an iterator that yields the elements of this
+   * iterator sorted with respect to the given comparator. The sort
+   * is stable. When the first element is requested, all the elements
+   * are buffered and sorted.
+   * 
+   * @example
+   * const words = new Iter(["b", "c", "a"]).sorted();
+   * assertEquals([...words], ["a", "b", "c"]);
+   * 
+   * @param cmp Optional comparator, if operators `<` and `>` don't suffice.
+   */
+  sorted(cmp: Comparator<T, T> = totalCmp): DoubleEndedIter<T> {
+    let sorted: DoubleEndedIterator<T> | null = null;
+    const buffered = () => {
+      if (sorted === null) {
+        sorted = new ArrayLikeIterator(this.collect(Array).sort(cmp));
+      }
+      return sorted;
+    };
+    return new DoubleEndedIter(this.adapter({
+      next: () => buffered().next(),
+      nextBack: () => buffered().nextBack(),
+      sizeHint: () => sorted !== null ? sizeHintOf(sorted) : this.sizeHint(),
+    }));
+  }
+
+  /**
+   * **kSmallest** returns an iterator over the k smallest elements of
+   * this iterator, in ascending order, consuming it. Only k elements
+   * are kept in memory, and it takes O(n log k) time.
+   * 
+   * @example
+   * const fastest = new Iter(times).kSmallest(3);
+   * 
+   * @param k The number of elements to return
+   * @param cmp Optional comparator, if operators `<` and `>` don't suffice.
+   */
+  kSmallest(k: number, cmp: Comparator<T, T> = totalCmp): DoubleEndedIter<T> {
+    checkCount(k, "k");
+    if (k === 0) {
+      this.return();
+      return new DoubleEndedIter([]);
+    }
+    // The heap keeps the largest of the smallest elements at the top,
+    // so it can be replaced when a smaller element is found.
+    const heap = new Heap<T>((lhs, rhs) => cmp(rhs, lhs));
+    this.forEach((v) => {
+      if (heap.size < k) {
+        heap.push(v);
+        return;
+      }
+      const top = heap.peek();
+      if (some(top) && cmp(v, top.value) < 0) {
+        heap.pop();
+        heap.push(v);
+      }
+    });
+    const items = new Array<T>(heap.size);
+    for (let i = items.length - 1; i >= 0; i--) {
+      items[i] = (heap.pop() as Some<T>).value;
+    }
+    return new DoubleEndedIter(items);
+  }
+
+  /**
+   * **kLargest** returns an iterator over the k largest elements of
+   * this iterator, in descending order, consuming it. See **kSmallest**.
+   * 
+   * @example
+   * const [best] = new Iter(scores).kLargest(1);
+   * 
+   * @param k The number of elements to return
+   * @param cmp Optional comparator, if operators `<` and `>` don't suffice.
+   */
+  kLargest(k: number, cmp: Comparator<T, T> = totalCmp): DoubleEndedIter<T> {
+    return this.kSmallest(k, (lhs, rhs) => cmp(rhs, lhs));
+  }
+
+  /**
+   * **mergeSorted** creates an iterator that merges this iterator and
+   * the given ones, which must all be sorted with respect to operators
+   * `<` and `>`, into a single sorted iterator.
+   * 
+   * Each iterator is advanced only when its element is yielded,
+   * and equal elements are yielded in the order of their iterators.
+   * 
+   * @example
+   * const merged = new Iter([1, 4]).mergeSorted([2, 3], [0, 5]);
+   * assertEquals([...merged], [0, 1, 2, 3, 4, 5]);
+   * 
+   * @param others The iterators to merge with this one
+   */
+  mergeSorted(...others: IntoIter<T>[]): Iter<T> {
+    return this.mergeSortedBy(totalCmp, ...others);
+  }
+
+  /**
+   * **mergeSortedBy** is the same as **mergeSorted**, but the iterators
+   * must be sorted with respect to the given comparator.
+   * 
+   * @example
+   * const desc = new Iter([4, 1]).mergeSortedBy((a, b) => b - a, [3, 2]);
+   * assertEquals([...desc], [4, 3, 2, 1]);
+   * 
+   * @param cmp The comparator the iterators are sorted by
+   * @param others The iterators to merge with this one
+   */
+  mergeSortedBy(cmp: Comparator<T, T>, ...others: IntoIter<T>[]): Iter<T> {
+    const iters = [this, ...others.map(fromIntoIter)];
+    let heap: Heap<[T, number]> | null = null;
+    const advance = (heap: Heap<[T, number]>, i: number) => {
+      const { value, done } = iters[i].next();
+      if (!done) {
+        heap.push([value, i]);
+      }
+    };
+    const next = (): IteratorResult<T> => {
+      if (heap === null) {
+        const h = new Heap<[T, number]>(([lhs, i], [rhs, j]) =>
+          callOrClose(merged, cmp, lhs, rhs) || i - j
+        );
+        heap = h;
+        iters.forEach((_, i) => advance(h, i));
+      }
+      const top = heap.pop();
+      if (!some(top)) {
+        return { done: true, value: undefined };
+      }
+      const [value, i] = top.value;
+      advance(heap, i);
+      return { done: false, value };
+    };
+    const sizeHint = () => {
+      const pending: SizeHint = [heap?.size ?? 0, heap?.size ?? 0];
+      return iters.map((iter) => iter.sizeHint()).reduce(addHints, pending);
+    };
+
+    const merged: Iter<T> = new Iter(
+      this.adapter({ next, sizeHint }, () => {
+        iters.slice(1).forEach((iter) => iter.return());
+      }),
+    );
+    return merged;
+  }
+
+  /**
+   * **interleave** creates an iterator that alternates between the
+   * elements of this iterator and of the other one, starting with this
+   * one. When one of them is done, the rest of the other is yielded.
+   * 
+   * @example
+   * const mixed = [...new Iter([1, 2, 3]).interleave([10])];
+   * assertEquals(mixed, [1, 10, 2, 3]);
+   * 
+   * @param other The iterable to interleave with
+   */
+  interleave(other: IntoIter<T>): Iter<T> {
+    return roundRobin([this, fromIntoIter(other)]);
+  }
+
+  /**
+   * **interleaveShortest** creates an iterator that alternates between
+   * the elements of this iterator and of the other one, starting with
+   * this one, until the one whose turn it is is done.
+   * 
+   * @example
+   * const mixed = [...new Iter([1, 2, 3]).interleaveShortest([10])];
+   * assertEquals(mixed, [1, 10, 2]);
+   * 
+   * @param other The iterable to interleave with
+   */
+  interleaveShortest(other: IntoIter<T>): Iter<T> {
+    const iter = fromIntoIter(other);
+    let flipped = false;
+    let finished = false;
+    const next = (): IteratorResult<T> => {
+      if (finished) {
         return { value: undefined, done: true };
       }
-      return { value: [lhs.value, rhs.value] };
+      const [current, waiting] = flipped ? [iter, this] : [this, iter];
+      flipped = !flipped;
+      const res = current.next();
+      if (res.done) {
+        finished = true;
+        waiting.return();
+      }
+      return res;
+    };
+
+    // With n elements left in the iterator whose turn it is and m in
+    // the other one, it yields 2n elements if n <= m, else 2m + 1.
+    const count = (n: number, m: number) => n <= m ? 2 * n : 2 * m + 1;
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      const [[nLow, nHigh], [mLow, mHigh]] = flipped
+        ? [iter.sizeHint(), this.sizeHint()]
+        : [this.sizeHint(), iter.sizeHint()];
+      const high = count(nHigh ?? Infinity, mHigh ?? Infinity);
+      return [count(nLow, mLow), high === Infinity ? null : high];
     };
 
-    return new Iter({ next });
+    return new Iter(this.adapter({ next, sizeHint }, () => iter.return()));
   }
 
   /**
-   * **collect** Collects all the Iter's elements into a collection.
+   * **mergeBy** creates an iterator that merges this iterator with
+   * the other one, choosing at each step which of their next elements
+   * to yield. The element of this iterator is yielded if the given
+   * function returns true, else the one of the other iterator.
+   * When one of them is done, the rest of the other is yielded.
    * 
-   * It is strongly recommended to use alternative methods
-   * to do this, such as using the spread operator, if collecting
-   * into an array, or passing the Iter as a constructor parameter,
-   * if collecting into a Set or a Map.
+   * If both iterators are sorted and the function checks if its
+   * first argument comes first, the result is sorted too.
    * 
-   * This method is useful if you want to join multiple strings into
-   * one without creating a temporary array.
+   * @example
+   * const byPriority = new Iter([{ p: 3 }, { p: 1 }])
+   *   .mergeBy([{ p: 2 }], (lhs, rhs) => lhs.p >= rhs.p);
+   * assertEquals([...byPriority], [{ p: 3 }, { p: 2 }, { p: 1 }]);
    * 
-   * @param constructor The constructor of the collection.
-   * @returns The collection with the iterator elements.
+   * @param other The iterable to merge with
+   * @param pickLeft The function that checks if the element of this
+   * iterator should be yielded before the one of the other iterator
    */
-  collect<
-    U extends Constructor<T>,
-    V extends Collection<T, U> = Collection<T, U>,
-  >(
-    constructor: U,
-  ): V {
-    const [collection, extender] = extend<T>(constructor);
+  mergeBy(other: IntoIter<T>, pickLeft: (lhs: T, rhs: T) => boolean): Iter<T> {
+    const iter = fromIntoIter(other);
+    let lhs: Option<T> | null = null;
+    let rhs: Option<T> | null = null;
+    const next = (): IteratorResult<T> => {
+      lhs ??= toOption(this.next());
+      rhs ??= toOption(iter.next());
+      if (!some(lhs) && !some(rhs)) {
+        return { value: undefined, done: true };
+      }
+      if (
+        !some(rhs) ||
+        some(lhs) && callOrClose(merged, pickLeft, lhs.value, rhs.value)
+      ) {
+        const { value } = lhs as Some<T>;
+        lhs = null;
+        return { value };
+      }
+      const { value } = rhs;
+      rhs = null;
+      return { value };
+    };
+
+    const pending = (side: Option<T> | null, iter: Iter<T>): SizeHint => {
+      if (side === null) {
+        return iter.sizeHint();
+      }
+      return some(side) ? addHints(iter.sizeHint(), [1, 1]) : [0, 0];
+    };
+    const sizeHint = () => addHints(pending(lhs, this), pending(rhs, iter));
 
-    return this.fold(collection, extender) as V;
+    const merged: Iter<T> = new Iter(
+      this.adapter({ next, sizeHint }, () => iter.return()),
+    );
+    return merged;
   }
 
   /**
-   * **unzip** Converts an iterator of pairs into a pair of containers.
+   * **uniqueBy** creates an iterator that yields only the elements
+   * whose key, returned by the given function, wasn't returned for
+   * a previous element. Keys are compared as Set does (SameValueZero),
+   * and all the distinct keys are kept in memory.
    * 
-   * It consumes an entire iterator of pairs, producing two collections:
-   * one from the left elements of the pairs, and one from the right elements.
-   *
-   * This function is, in some sense, the opposite of zip.
+   * @example
+   * const words = new Iter(["apple", "avocado", "banana"]);
+   * const firsts = [...words.uniqueBy((w) => w[0])];
+   * assertEquals(firsts, ["apple", "banana"]);
    * 
-   * NOTE: The type system tries to prevent calling this method
-   * if Iter's element type isn't a tuple, and ignoring it will
-   * result in a thrown exception.
-   *
-   * @param ca The constructor of the first collection.
-   * @param cb The constructor of the second collection.
-   * @returns A tuple with the resulted collections.
+   * @param f The function to get the key to compare
    */
-  unzip<
-    A extends Constructor<First<T>>,
-    B extends Constructor<Second<T>>,
-    VA extends Collection<First<T>, A> = Collection<First<T>, A>,
-    VB extends Collection<Second<T>, B> = Collection<Second<T>, B>,
-  >(
-    ca: A,
-    cb: B,
-  ): [VA, VB] {
-    const [colA, extA] = extend<First<T>>(ca);
-    const [colB, extB] = extend<Second<T>>(cb);
+  uniqueBy<K>(f: (v: T) => K): Iter<T> {
+    const seen = new Set<K>();
+    const next = (): IteratorResult<T> => {
+      for (let res = this.next(); !res.done; res = this.next()) {
+        const key = callOrClose(this, f, res.value);
+        if (!seen.has(key)) {
+          seen.add(key);
+          return res;
+        }
+      }
+      return { value: undefined, done: true };
+    };
+    const sizeHint = (): SizeHint => {
+      const [low, high] = this.sizeHint();
+      return [seen.size > 0 ? 0 : Math.min(low, 1), high];
+    };
 
-    return this.fold([colA, colB], (acc, v) => {
-      acc[0] = extA(
-        acc[0] as typeof colA,
-        (v as unknown as [First<T>, Second<T>])[0],
-      );
-      acc[1] = extB(
-        acc[1] as typeof colB,
-        (v as unknown as [First<T>, Second<T>])[1],
-      );
-      return acc;
-    }) as [VA, VB];
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **unique** creates an iterator that yields only the first
+   * occurrence of each element, as **uniqueBy** does.
+   * 
+   * @example
+   * assertEquals([...new Iter([1, 2, 1, 3, 2]).unique()], [1, 2, 3]);
+   */
+  unique(): Iter<T> {
+    return this.uniqueBy((v) => v);
+  }
+
+  /**
+   * **dedupBy** creates an iterator that skips the consecutive elements
+   * that are equal to the last yielded element, with respect to
+   * the given function. Unlike **uniqueBy**, it doesn't keep anything
+   * in memory other than the last yielded element.
+   * 
+   * @example
+   * const lines = new Iter(["a", "A", "b", "a"]);
+   * const deduped = lines.dedupBy((l, r) => l.toLowerCase() === r.toLowerCase());
+   * assertEquals([...deduped], ["a", "b", "a"]);
+   * 
+   * @param eq The function that checks if two elements are equal
+   */
+  dedupBy(eq: (lhs: T, rhs: T) => boolean): Iter<T> {
+    let last: Option<T> = None;
+    const next = (): IteratorResult<T> => {
+      for (let res = this.next(); !res.done; res = this.next()) {
+        if (!some(last) || !callOrClose(this, eq, last.value, res.value)) {
+          last = Some(res.value);
+          return res;
+        }
+      }
+      return { value: undefined, done: true };
+    };
+    const sizeHint = (): SizeHint => {
+      const [low, high] = this.sizeHint();
+      return [some(last) ? 0 : Math.min(low, 1), high];
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **dedup** creates an iterator that skips consecutive duplicates,
+   * as **dedupBy** does. Elements are compared as Set does
+   * (SameValueZero), so NaN is a duplicate of NaN.
+   * 
+   * @example
+   * assertEquals([...new Iter([1, 1, 2, 1, 1]).dedup()], [1, 2, 1]);
+   */
+  dedup(): Iter<T> {
+    return this.dedupBy(sameValueZero);
+  }
+
+  /**
+   * **union** creates an iterator that merges this iterator and the given
+   * one, which must both be sorted with respect to the comparator, into
+   * a sorted iterator. Elements found in both iterators are yielded once,
+   * from this iterator.
+   * 
+   * @example
+   * assertEquals([...new Iter([1, 3, 5]).union([2, 3, 4])], [1, 2, 3, 4, 5]);
+   * 
+   * @param other The sorted iterator to merge with
+   * @param cmp Optional comparator, if operators `<` and `>` don't suffice.
+   */
+  union(other: IntoIter<T>, cmp: Comparator<T, T> = totalCmp): Iter<T> {
+    return this.mergeJoin(
+      other,
+      cmp,
+      [true, true, true],
+      ([lhsLow, lhsHigh], [rhsLow, rhsHigh]) => [
+        Math.max(lhsLow, rhsLow),
+        lhsHigh !== null && rhsHigh !== null ? lhsHigh + rhsHigh : null,
+      ],
+    );
+  }
+
+  /**
+   * **intersection** creates an iterator that yields the elements of
+   * this iterator that are also found in the given one. Both iterators
+   * must be sorted with respect to the comparator.
+   * 
+   * @example
+   * assertEquals([...new Iter([1, 3, 5]).intersection([2, 3, 5])], [3, 5]);
+   * 
+   * @param other The sorted iterator to intersect with
+   * @param cmp Optional comparator, if operators `<` and `>` don't suffice.
+   */
+  intersection(other: IntoIter<T>, cmp: Comparator<T, T> = totalCmp): Iter<T> {
+    return this.mergeJoin(
+      other,
+      cmp,
+      [false, true, false],
+      (lhs, rhs) => upperHint(minHints(lhs, rhs)),
+    );
+  }
+
+  /**
+   * **difference** creates an iterator that yields the elements of
+   * this iterator that aren't found in the given one. Both iterators
+   * must be sorted with respect to the comparator.
+   * 
+   * @example
+   * assertEquals([...new Iter([1, 3, 5]).difference([2, 3])], [1, 5]);
+   * 
+   * @param other The sorted iterator with the elements to leave out
+   * @param cmp Optional comparator, if operators `<` and `>` don't suffice.
+   */
+  difference(other: IntoIter<T>, cmp: Comparator<T, T> = totalCmp): Iter<T> {
+    return this.mergeJoin(
+      other,
+      cmp,
+      [true, false, false],
+      (lhs) => upperHint(lhs),
+    );
+  }
+
+  /**
+   * **mergeJoin** walks this iterator and the given one side by side,
+   * as both are sorted, and yields the elements found only in this
+   * iterator, in both or only in the other one, as requested.
+   */
+  private mergeJoin(
+    other: IntoIter<T>,
+    cmp: Comparator<T, T>,
+    [onlyLhs, both, onlyRhs]: [boolean, boolean, boolean],
+    hint: (lhs: SizeHint, rhs: SizeHint) => SizeHint,
+  ): Iter<T> {
+    const rhs = fromIntoIter(other);
+    let left: IteratorResult<T> | null = null;
+    let right: IteratorResult<T> | null = null;
+    const next = (): IteratorResult<T> => {
+      while (true) {
+        if (left === null) {
+          left = this.next();
+        }
+        if (right === null) {
+          right = rhs.next();
+        }
+        if (left.done && (right.done || !onlyRhs)) {
+          return rhs.return();
+        }
+        if (right.done && !onlyLhs) {
+          return this.return();
+        }
+        const ord = left.done
+          ? 1
+          : right.done
+          ? -1
+          : callOrClose(joined, cmp, left.value, right.value);
+        const res: IteratorResult<T> = ord > 0 ? right : left;
+        const yielded = ord < 0 ? onlyLhs : ord > 0 ? onlyRhs : both;
+        if (ord <= 0) {
+          left = null;
+        }
+        if (ord >= 0) {
+          right = null;
+        }
+        if (yielded) {
+          return res;
+        }
+      }
+    };
+    const pending = (res: IteratorResult<T> | null): SizeHint =>
+      res !== null && !res.done ? [1, 1] : [0, 0];
+    const sizeHint = () =>
+      hint(
+        addHints(this.sizeHint(), pending(left)),
+        addHints(rhs.sizeHint(), pending(right)),
+      );
+
+    const joined: Iter<T> = new Iter(
+      this.adapter({ next, sizeHint }, () => rhs.return()),
+    );
+    return joined;
+  }
+
+  /**
+   * **zip** 'zips up' two iterators into a single iterator of pairs.
+   * 
+   * It returns a new iterator that will iterate over two other iterators,
+   * returning a tuple where the first element comes from the first iterator,
+   * and the second element comes from the second iterator.
+   * 
+   * In other words, it zips two iterators together, into a single one.
+   * 
+   * If either iterator is done before the other, this iterator will be done.
+   * 
+   * @param other The iterable to zip with
+   */
+  zip<U>(other: IntoIter<U>): Iter<[T, U]> {
+    const iter = new Iter(other);
+    const next = (): IteratorResult<[T, U]> => {
+      const lhs = this.next();
+      if (lhs.done) {
+        return iter.return();
+      }
+      const rhs = iter.next();
+      if (rhs.done) {
+        return this.return();
+      }
+      return { value: [lhs.value, rhs.value] };
+    };
+
+    return new Iter(this.adapter({
+      next,
+      sizeHint: () => minHints(this.sizeHint(), iter.sizeHint()),
+    }, () => iter.return()));
+  }
+
+  /**
+   * **zipWith** 'zips up' two iterators, combining each pair of
+   * elements with the given function. It is the same as **zip**
+   * followed by **map**, without creating the pairs.
+   * 
+   * @example
+   * const sums = new Iter([1, 2, 3]).zipWith([10, 20], (a, b) => a + b);
+   * assertEquals([...sums], [11, 22]);
+   * 
+   * @param other The iterable to zip with
+   * @param f The function that combines the elements
+   */
+  zipWith<U, R>(other: IntoIter<U>, f: (lhs: T, rhs: U) => R): Iter<R> {
+    return this.zip(other).map(([lhs, rhs]) => f(lhs, rhs));
+  }
+
+  /**
+   * **zipLongest** 'zips up' two iterators into an iterator of pairs
+   * of Options, which continues until both iterators are done.
+   * After one of them is done, its side of the pairs is None.
+   * 
+   * @example
+   * const pairs = [...new Iter([1, 2]).zipLongest(["a"])];
+   * assertEquals(pairs, [[Some(1), Some("a")], [Some(2), None]]);
+   * 
+   * @param other The iterable to zip with
+   */
+  zipLongest<U>(other: IntoIter<U>): Iter<[Option<T>, Option<U>]> {
+    const iter = new Iter(other);
+    let [lhsDone, rhsDone] = [false, false];
+    const next = (): IteratorResult<[Option<T>, Option<U>]> => {
+      const lhs = lhsDone ? None : toOption(this.next());
+      const rhs = rhsDone ? None : toOption(iter.next());
+      [lhsDone, rhsDone] = [none(lhs), none(rhs)];
+      if (lhsDone && rhsDone) {
+        return { value: undefined, done: true };
+      }
+      return { value: [lhs, rhs] };
+    };
+
+    const sizeHint = (): SizeHint =>
+      maxHints(
+        lhsDone ? [0, 0] : this.sizeHint(),
+        rhsDone ? [0, 0] : iter.sizeHint(),
+      );
+
+    return new Iter(this.adapter({ next, sizeHint }, () => iter.return()));
+  }
+
+  /**
+   * **zipAll** 'zips up' any number of iterators into a single iterator
+   * of tuples, whose first element comes from this iterator and each
+   * of the others from the iterator at the same position. It is done
+   * when any of the iterators is done.
+   * 
+   * @example
+   * const rows = new Iter(["ann", "bob"]).zipAll([31, 25], [true, false]);
+   * assertEquals([...rows], [["ann", 31, true], ["bob", 25, false]]);
+   * 
+   * @param others The iterables to zip with
+   */
+  zipAll<U extends unknown[]>(
+    ...others: { [K in keyof U]: IntoIter<U[K]> }
+  ): Iter<[T, ...U]> {
+    const iters: Iter<unknown>[] = [this, ...others.map(fromIntoIter)];
+    const closeAll = () => iters.forEach((iter) => iter.return());
+    const next = (): IteratorResult<[T, ...U]> => {
+      const value = [];
+      for (const iter of iters) {
+        const res = iter.next();
+        if (res.done) {
+          closeAll();
+          return { value: undefined, done: true };
+        }
+        value.push(res.value);
+      }
+      return { value: value as [T, ...U] };
+    };
+
+    const sizeHint = (): SizeHint =>
+      iters.map((iter) => iter.sizeHint()).reduce(minHints);
+
+    return new Iter(this.adapter({ next, sizeHint }, closeAll));
+  }
+
+  /**
+   * **zipEq** 'zips up' two iterators into a single iterator of pairs,
+   * as **zip** does, but throws a RangeError if one of them is done
+   * before the other.
+   * 
+   * @example
+   * assertThrows(() => [...new Iter([1, 2]).zipEq([3])], RangeError);
+   * 
+   * @param other The iterable to zip with
+   */
+  zipEq<U>(other: IntoIter<U>): Iter<[T, U]> {
+    const iter = new Iter(other);
+    const next = (): IteratorResult<[T, U]> => {
+      const lhs = this.next();
+      const rhs = iter.next();
+      if (lhs.done && rhs.done) {
+        return { value: undefined, done: true };
+      }
+      if (lhs.done || rhs.done) {
+        this.return();
+        iter.return();
+        const shorter = lhs.done ? "first" : "second";
+        throw new RangeError(
+          `Iter: The ${shorter} iterator passed to zipEq is shorter`,
+        );
+      }
+      return { value: [lhs.value, rhs.value] };
+    };
+
+    return new Iter(this.adapter({
+      next,
+      sizeHint: () => minHints(this.sizeHint(), iter.sizeHint()),
+    }, () => iter.return()));
+  }
+
+  /**
+   * **chain** takes other iterators and creates a new iterator that
+   * will first iterate over the values of this iterator and then
+   * over the values of each of the others, in order.
+   * 
+   * @example
+   * const all = [...new Iter([1, 2]).chain([3], new Set([4, 5]))];
+   * assertEquals(all, [1, 2, 3, 4, 5]);
+   * 
+   * @param others The iterables or iterators to chain after this one
+   */
+  chain(...others: IntoIter<T>[]): Iter<T> {
+    const iters = [this, ...others.map(fromIntoIter)];
+    let current = 0;
+    const next = (): IteratorResult<T> => {
+      while (current < iters.length) {
+        const res = iters[current].next();
+        if (!res.done) {
+          return res;
+        }
+        current++;
+      }
+      return { value: undefined, done: true };
+    };
+
+    const sizeHint = (): SizeHint =>
+      iters.slice(current).map((iter) => iter.sizeHint()).reduce(addHints, [
+        0,
+        0,
+      ]);
+    const close = () => iters.slice(1).forEach((iter) => iter.return());
+
+    return new Iter(this.adapter({ next, sizeHint }, close));
+  }
+
+  /**
+   * **cycle** creates an iterator that repeats this iterator endlessly.
+   * The elements are buffered during the first pass, so this iterator
+   * must be finite, unless it is known to never end, in which case it
+   * is iterated as it is. An empty iterator stays empty.
+   * 
+   * @example
+   * const turns = new Iter(["ann", "bob"]).cycle().take(3).collect(Array);
+   * assertEquals(turns, ["ann", "bob", "ann"]);
+   */
+  cycle(): Iter<T> {
+    const infinite = this.sizeHint()[0] === Infinity;
+    const buffer: T[] = [];
+    // The index of the next buffered element, or null during the first pass.
+    let index: number | null = null;
+    const next = (): IteratorResult<T> => {
+      if (index === null) {
+        const res = this.next();
+        if (!res.done) {
+          if (!infinite) {
+            buffer.push(res.value);
+          }
+          return res;
+        }
+        index = 0;
+      }
+      if (buffer.length === 0) {
+        return { value: undefined, done: true };
+      }
+      const value = buffer[index];
+      index = (index + 1) % buffer.length;
+      return { value };
+    };
+    const sizeHint = (): SizeHint => {
+      const [low, high] = index === null ? this.sizeHint() : [0, 0];
+      if (buffer.length !== 0 || low !== 0) {
+        return [Infinity, null];
+      }
+      return [0, high === 0 ? 0 : null];
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **flatMap** creates an iterator that applies the given function
+   * to each element and yields the values of the resulted iterators,
+   * in order.
+   * 
+   * @example
+   * const words = ["ab", "cd"];
+   * const chars = [...new Iter(words).flatMap((w) => w.split(""))];
+   * assertEquals(chars, ["a", "b", "c", "d"]);
+   * 
+   * @param f The function that maps an element to an iterable or iterator
+   */
+  flatMap<U>(f: (v: T) => IntoIter<U>): Iter<U> {
+    let inner: Iter<U> | null = null;
+    const next = (): IteratorResult<U> => {
+      while (true) {
+        if (inner !== null) {
+          const res = inner.next();
+          if (!res.done) {
+            return res;
+          }
+          inner = null;
+        }
+        const { value, done } = this.next();
+        if (done) {
+          return { value, done };
+        }
+        inner = fromIntoIter(callOrClose(this, f, value));
+      }
+    };
+
+    const sizeHint = (): SizeHint => {
+      const [low, high]: SizeHint = inner?.sizeHint() ?? [0, 0];
+      const [, outerHigh] = this.sizeHint();
+      return [low, outerHigh === 0 ? high : null];
+    };
+    const close = () => inner?.return();
+
+    return new Iter(this.adapter({ next, sizeHint }, close));
+  }
+
+  /**
+   * **flatten** creates an iterator that flattens one level of nesting
+   * of an iterator over iterables or iterators.
+   * 
+   * @example
+   * const flat = [...new Iter([[1, 2], [], [3]]).flatten()];
+   * assertEquals(flat, [1, 2, 3]);
+   */
+  flatten<U>(this: Iter<IntoIter<U>>): Iter<U> {
+    return this.flatMap((v) => v);
+  }
+
+  /**
+   * **intersperse** creates an iterator that places a copy of the
+   * separator between each two adjacent elements of this iterator.
+   * 
+   * @example
+   * const s = new Iter(["a", "b", "c"]).intersperse(", ").collect(String);
+   * assertEquals(s, "a, b, c");
+   * 
+   * @param separator The value to place between elements
+   */
+  intersperse(separator: T): Iter<T> {
+    return this.intersperseWith(() => separator);
+  }
+
+  /**
+   * **intersperseWith** creates an iterator that places a value
+   * generated by the given function between each two adjacent elements
+   * of this iterator.
+   * 
+   * The function is called only when a separator is needed.
+   * 
+   * @param f The function that generates the separator
+   */
+  intersperseWith(f: () => T): Iter<T> {
+    let started = false;
+    let pending: IteratorResult<T> | undefined;
+    const next = (): IteratorResult<T> => {
+      if (!started) {
+        started = true;
+        return this.next();
+      }
+      if (pending) {
+        const res = pending;
+        pending = undefined;
+        return res;
+      }
+      const res = this.next();
+      if (res.done) {
+        return res;
+      }
+      pending = res;
+      return { value: callOrClose(this, f) };
+    };
+
+    const sizeHint = (): SizeHint => {
+      const [low, high] = this.sizeHint();
+      if (!started) {
+        return [
+          Math.max(0, 2 * low - 1),
+          high !== null ? Math.max(0, 2 * high - 1) : null,
+        ];
+      }
+      const extra = pending ? 1 : 0;
+      return [2 * low + extra, high !== null ? 2 * high + extra : null];
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **chunks** creates an iterator that yields the elements of this
+   * iterator in arrays of n elements. The last chunk has fewer
+   * elements if the number of elements isn't divisible by n.
+   * 
+   * @example
+   * const chunks = [...new Iter([1, 2, 3, 4, 5]).chunks(2)];
+   * assertEquals(chunks, [[1, 2], [3, 4], [5]]);
+   * 
+   * @param n The number of elements in a chunk. Must be a positive integer.
+   */
+  chunks(n: number): Iter<T[]> {
+    checkSize(n, "chunk");
+
+    const next = (): IteratorResult<T[]> => {
+      const chunk: T[] = [];
+      for (let res = this.next(); !res.done; res = this.next()) {
+        if (chunk.push(res.value) === n) {
+          break;
+        }
+      }
+      if (chunk.length === 0) {
+        return { value: undefined, done: true };
+      }
+      return { value: chunk };
+    };
+
+    const sizeHint = () =>
+      mapHint(this.sizeHint(), (len) => Math.ceil(len / n));
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **chunksExact** is the same as **chunks**, but all the chunks have
+   * exactly n elements: if the number of elements isn't divisible by n,
+   * the remaining ones are discarded.
+   * 
+   * @example
+   * const chunks = [...new Iter([1, 2, 3, 4, 5]).chunksExact(2)];
+   * assertEquals(chunks, [[1, 2], [3, 4]]);
+   * 
+   * @param n The number of elements in a chunk. Must be a positive integer.
+   */
+  chunksExact(n: number): Iter<T[]> {
+    checkSize(n, "chunk");
+
+    const chunks = this.chunks(n);
+    const next = (): IteratorResult<T[]> => {
+      const res = chunks.next();
+      if (res.done || res.value.length < n) {
+        return { value: undefined, done: true };
+      }
+      return res;
+    };
+
+    const sizeHint = () =>
+      mapHint(this.sizeHint(), (len) => Math.floor(len / n));
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **windows** creates an iterator that yields all the contiguous
+   * windows of n elements of this iterator, as arrays. If there are
+   * fewer than n elements, it yields nothing.
+   * 
+   * Each window is a new array, so windows can be kept
+   * after the iteration advances.
+   * 
+   * @example
+   * const windows = [...new Iter([1, 2, 3, 4]).windows(2)];
+   * assertEquals(windows, [[1, 2], [2, 3], [3, 4]]);
+   * 
+   * @param n The number of elements in a window. Must be a positive integer.
+   */
+  windows(n: number): Iter<T[]> {
+    checkSize(n, "window");
+
+    let window: T[] = [];
+    const next = (): IteratorResult<T[]> => {
+      window = window.slice(window.length === n ? 1 : 0);
+      while (window.length < n) {
+        const res = this.next();
+        if (res.done) {
+          return res;
+        }
+        window.push(res.value);
+      }
+      return { value: window };
+    };
+
+    const sizeHint = (): SizeHint =>
+      skipHint(this.sizeHint(), window.length === n ? 0 : n - 1);
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **pairwise** creates an iterator that yields each pair of adjacent
+   * elements, as in **windows** of two elements, but as tuples.
+   * 
+   * @example
+   * const diffs = new Iter([1, 4, 9, 16])
+   *   .pairwise()
+   *   .map(([prev, curr]) => curr - prev);
+   * assertEquals([...diffs], [3, 5, 7]);
+   */
+  pairwise(): Iter<[T, T]> {
+    let prev: Option<T> = None;
+    const next = (): IteratorResult<[T, T]> => {
+      if (!some(prev)) {
+        const first = this.next();
+        if (first.done) {
+          return first;
+        }
+        prev = Some(first.value);
+      }
+      const { value, done } = this.next();
+      if (done) {
+        return { value, done };
+      }
+      const pair: [T, T] = [prev.value, value];
+      prev = Some(value);
+      return { value: pair };
+    };
+
+    const sizeHint = (): SizeHint =>
+      skipHint(this.sizeHint(), some(prev) ? 0 : 1);
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **chunkBy** creates an iterator that groups consecutive elements
+   * that have the same key, yielding pairs of the key and an array
+   * with the elements of each group. Keys are compared using strict
+   * equality.
+   * 
+   * The key function is called exactly once for each element.
+   * 
+   * @example
+   * const events = [{ minute: 0 }, { minute: 0 }, { minute: 1 }, { minute: 0 }];
+   * const counts = new Iter(events)
+   *   .chunkBy((event) => event.minute)
+   *   .map(([minute, group]) => [minute, group.length]);
+   * assertEquals([...counts], [[0, 2], [1, 1], [0, 1]]);
+   * 
+   * @param f The function that computes the key of an element
+   */
+  chunkBy<K>(f: (v: T) => K): Iter<[K, T[]]> {
+    let started = false;
+    let pending: [K, T] | null = null;
+    const pull = () => {
+      const res = this.next();
+      pending = res.done ? null : [callOrClose(this, f, res.value), res.value];
+    };
+
+    const next = (): IteratorResult<[K, T[]]> => {
+      if (!started) {
+        started = true;
+        pull();
+      }
+      if (pending === null) {
+        return { value: undefined, done: true };
+      }
+      const [key, first] = pending;
+      const chunk = [first];
+      for (pull(); pending !== null && pending[0] === key; pull()) {
+        chunk.push(pending[1]);
+      }
+      return { value: [key, chunk] };
+    };
+
+    const sizeHint = (): SizeHint => {
+      const [low, high] = addHints(
+        this.sizeHint(),
+        pending !== null ? [1, 1] : [0, 0],
+      );
+      return [Math.min(low, 1), high];
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **cartesianProduct** creates an iterator over all the tuples made of
+   * an element of this iterator followed by an element of each of the
+   * given iterators, in lexicographic order: the last element of the
+   * tuple changes the most often.
+   * 
+   * This iterator is advanced lazily, but the given iterators are
+   * buffered when the first tuple is requested, so they must be finite.
+   * A RangeError is thrown for the ones whose size hint tells that they
+   * never end, such as the ones returned by **repeat**, but other
+   * infinite iterators, such as generators, can't be detected and
+   * are buffered forever.
+   * 
+   * @example
+   * const matrix = new Iter(["linux", "mac"]).cartesianProduct([16, 18]);
+   * assertEquals([...matrix], [
+   *   ["linux", 16],
+   *   ["linux", 18],
+   *   ["mac", 16],
+   *   ["mac", 18],
+   * ]);
+   * 
+   * @param others The iterators to combine this one with
+   */
+  cartesianProduct<U extends unknown[]>(
+    ...others: { [K in keyof U]: IntoIter<U[K]> }
+  ): Iter<[T, ...U]> {
+    const iters: Iter<unknown>[] = others.map(fromIntoIter);
+    let pools: unknown[][] | null = null;
+    let head: IteratorResult<T> | null = null;
+    const indices = iters.map(() => 0);
+    let finished = false;
+    // Advances the indices like an odometer, returning false
+    // when they wrap around.
+    const increment = (pools: unknown[][]) => {
+      for (let i = indices.length - 1; i >= 0; i--) {
+        if (++indices[i] < pools[i].length) {
+          return true;
+        }
+        indices[i] = 0;
+      }
+      return false;
+    };
+    const next = (): IteratorResult<[T, ...U]> => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      if (pools === null) {
+        pools = iters.map((iter) => buffer(iter, "cartesianProduct"));
+        if (pools.some((pool) => pool.length === 0)) {
+          finished = true;
+          return this.return();
+        }
+      }
+      if (head === null || !increment(pools)) {
+        head = this.next();
+      }
+      if (head.done) {
+        finished = true;
+        return { value: undefined, done: true };
+      }
+      const ps = pools;
+      const value = [head.value, ...indices.map((index, i) => ps[i][index])];
+      return { value: value as [T, ...U] };
+    };
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      if (pools === null) {
+        return iters.map((iter) => iter.sizeHint())
+          .reduce(mulHints, this.sizeHint());
+      }
+      const ps = pools;
+      const count = ps.reduce((acc, pool) => acc * pool.length, 1);
+      const current = head !== null
+        ? indices.reduce((acc, index, i) => acc * ps[i].length + index, 0)
+        : count - 1;
+      const rest = count - 1 - current;
+      return addHints(mapHint(this.sizeHint(), (n) => n * count), [rest, rest]);
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }, () => {
+      iters.forEach((iter) => iter.return());
+    }));
+  }
+
+  /**
+   * **combinations** creates an iterator over all the k-element tuples
+   * of elements of this iterator, in lexicographic order by position.
+   * Elements are distinct by position, not by value.
+   * 
+   * The elements are buffered as they are needed, so the first tuples
+   * are yielded before the iterator is consumed. On an infinite iterator,
+   * all the tuples start with the first k - 1 elements, as the last
+   * position never runs out of elements.
+   * 
+   * @example
+   * const pairs = [...new Iter([1, 2, 3]).combinations(2)];
+   * assertEquals(pairs, [[1, 2], [1, 3], [2, 3]]);
+   * 
+   * @param k The number of elements in each tuple
+   */
+  combinations<K extends number>(k: K): Iter<Tuple<T, K>> {
+    return this.combine(k, false);
+  }
+
+  /**
+   * **combinationsWithReplacement** is the same as **combinations**,
+   * but an element can be repeated in a tuple.
+   * 
+   * @example
+   * const pairs = [...new Iter([1, 2]).combinationsWithReplacement(2)];
+   * assertEquals(pairs, [[1, 1], [1, 2], [2, 2]]);
+   * 
+   * @param k The number of elements in each tuple
+   */
+  combinationsWithReplacement<K extends number>(k: K): Iter<Tuple<T, K>> {
+    return this.combine(k, true);
+  }
+
+  /**
+   * **combine** implements **combinations** and
+   * **combinationsWithReplacement**.
+   */
+  private combine<K extends number>(
+    k: K,
+    replacement: boolean,
+  ): Iter<Tuple<T, K>> {
+    checkCount(k, "tuple size");
+    const pool: T[] = [];
+    let exhausted = false;
+    let indices: number[] | null = null;
+    let finished = false;
+    const pull = () => {
+      if (!exhausted) {
+        const { value, done } = this.next();
+        if (done) {
+          exhausted = true;
+        } else {
+          pool.push(value);
+        }
+      }
+    };
+    // The greatest index at position i, given the current pool.
+    const maxIndex = (i: number) =>
+      replacement ? pool.length - 1 : pool.length - k + i;
+    const advance = (): boolean => {
+      if (indices === null) {
+        const needed = replacement ? Math.min(k, 1) : k;
+        while (pool.length < needed && !exhausted) {
+          pull();
+        }
+        indices = Array.from({ length: k }, (_, i) => replacement ? 0 : i);
+        return pool.length >= needed;
+      }
+      if (k > 0 && indices[k - 1] === pool.length - 1) {
+        pull();
+      }
+      let i = k - 1;
+      while (i >= 0 && indices[i] === maxIndex(i)) {
+        i--;
+      }
+      if (i < 0) {
+        return false;
+      }
+      const first = indices[i] + 1;
+      for (let j = i; j < k; j++) {
+        indices[j] = replacement ? first : first + j - i;
+      }
+      return true;
+    };
+    const next = (): IteratorResult<Tuple<T, K>> => {
+      if (finished || !advance()) {
+        finished = true;
+        return { value: undefined, done: true };
+      }
+      const value = (indices as number[]).map((index) => pool[index]);
+      return { value: value as Tuple<T, K> };
+    };
+    // The number of the remaining tuples, for n elements in total.
+    const remaining = (n: number) => {
+      if (indices === null) {
+        if (replacement) {
+          return k === 0 ? 1 : binomial(n + k - 1, k);
+        }
+        return binomial(n, k);
+      }
+      const tuples = (index: number, i: number) =>
+        replacement
+          ? binomial(n - index + k - i - 2, k - i)
+          : binomial(n - index - 1, k - i);
+      return indices.reduce((acc, index, i) => acc + tuples(index, i), 0);
+    };
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      const total = addHints(this.sizeHint(), [pool.length, pool.length]);
+      return mapHint(total, remaining);
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **permutations** creates an iterator over all the k-element tuples
+   * of distinct elements of this iterator, taking their order into
+   * account. Elements are distinct by position, not by value.
+   * 
+   * All the elements are buffered when the first tuple is requested,
+   * so the iterator must be finite. A RangeError is thrown if its size
+   * hint tells that it never ends, but other infinite iterators, such
+   * as generators, can't be detected and are buffered forever.
+   * 
+   * @example
+   * const perms = [...new Iter([1, 2, 3]).permutations(2)];
+   * assertEquals(perms, [[1, 2], [1, 3], [2, 1], [2, 3], [3, 1], [3, 2]]);
+   * 
+   * @param k The number of elements in each tuple
+   */
+  permutations<K extends number>(k: K): Iter<Tuple<T, K>> {
+    checkCount(k, "tuple size");
+    let pool: T[] | null = null;
+    let indices: number[] = [];
+    let cycles: number[] = [];
+    let finished = false;
+    let yielded = 0;
+    // Advances to the next permutation, using the algorithm of
+    // Python's itertools.permutations.
+    const advance = (pool: T[]): boolean => {
+      const n = pool.length;
+      for (let i = k - 1; i >= 0; i--) {
+        cycles[i]--;
+        if (cycles[i] === 0) {
+          indices.push(...indices.splice(i, 1));
+          cycles[i] = n - i;
+        } else {
+          const j = n - cycles[i];
+          [indices[i], indices[j]] = [indices[j], indices[i]];
+          return true;
+        }
+      }
+      return false;
+    };
+    const next = (): IteratorResult<Tuple<T, K>> => {
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      if (pool === null) {
+        pool = buffer(this, "permutations");
+        const n = pool.length;
+        indices = Array.from({ length: n }, (_, i) => i);
+        cycles = Array.from({ length: k }, (_, i) => n - i);
+        finished = k > n;
+      } else {
+        finished = !advance(pool);
+      }
+      if (finished) {
+        return { value: undefined, done: true };
+      }
+      yielded++;
+      const p = pool;
+      const value = indices.slice(0, k).map((index) => p[index]);
+      return { value: value as Tuple<T, K> };
+    };
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      const total = pool !== null
+        ? [pool.length, pool.length] as SizeHint
+        : this.sizeHint();
+      return mapHint(total, (n) => arrangements(n, k) - yielded);
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **powerset** creates an iterator over all the subsets of the
+   * elements of this iterator, as arrays, ordered by their size and
+   * then in lexicographic order by position, like **combinations**.
+   * 
+   * The empty subset and the subsets with one element are yielded
+   * while the iterator is consumed and buffered. On an infinite iterator,
+   * only those are ever yielded, as there is always another element.
+   * 
+   * @example
+   * const subsets = [...new Iter([1, 2, 3]).powerset()];
+   * assertEquals(subsets, [
+   *   [],
+   *   [1],
+   *   [2],
+   *   [3],
+   *   [1, 2],
+   *   [1, 3],
+   *   [2, 3],
+   *   [1, 2, 3],
+   * ]);
+   */
+  powerset(): Iter<T[]> {
+    const pool: T[] = [];
+    let indices: number[] | null = null;
+    let finished = false;
+    let yielded = 0;
+    const advance = (): boolean => {
+      if (indices === null) {
+        indices = [];
+        return true;
+      }
+      if (indices.length <= 1) {
+        const { value, done } = this.next();
+        if (!done) {
+          pool.push(value);
+          indices = [pool.length - 1];
+          return true;
+        }
+        if (indices.length === 0) {
+          return false;
+        }
+      }
+      const k = indices.length;
+      let i = k - 1;
+      while (i >= 0 && indices[i] === pool.length - k + i) {
+        i--;
+      }
+      if (i < 0) {
+        if (k === pool.length) {
+          return false;
+        }
+        indices = Array.from({ length: k + 1 }, (_, i) => i);
+        return true;
+      }
+      indices[i]++;
+      for (let j = i + 1; j < k; j++) {
+        indices[j] = indices[j - 1] + 1;
+      }
+      return true;
+    };
+    const next = (): IteratorResult<T[]> => {
+      if (finished || !advance()) {
+        finished = true;
+        return { value: undefined, done: true };
+      }
+      yielded++;
+      return { value: (indices as number[]).map((index) => pool[index]) };
+    };
+    const sizeHint = (): SizeHint => {
+      if (finished) {
+        return [0, 0];
+      }
+      const total = addHints(this.sizeHint(), [pool.length, pool.length]);
+      return mapHint(total, (n) => 2 ** n - yielded);
+    };
+
+    return new Iter(this.adapter({ next, sizeHint }));
+  }
+
+  /**
+   * **peekable** creates an iterator which can look at the next
+   * element without consuming it. See Peekable for details.
+   * 
+   * @example
+   * const iter = new Iter([1, 2, 3]).peekable();
+   * assertEquals(iter.peek(), Some(1));
+   * assertEquals([...iter], [1, 2, 3]);
+   */
+  peekable(): Peekable<T> {
+    return new Peekable(this);
+  }
+
+  /**
+   * **toAsync** creates an AsyncIter over the elements of this iterator,
+   * so that it can be chained with asynchronous functions.
+   * 
+   * @example
+   * const texts = await new Iter(["a.txt", "b.txt"])
+   *   .toAsync()
+   *   .map((path) => Deno.readTextFile(path))
+   *   .collect(Array);
+   */
+  toAsync(): AsyncIter<T> {
+    return new AsyncIter(this);
+  }
+
+  /**
+   * **collect** Collects all the Iter's elements into a collection.
+   * 
+   * It is strongly recommended to use alternative methods
+   * to do this, such as using the spread operator, if collecting
+   * into an array, or passing the Iter as a constructor parameter,
+   * if collecting into a Set or a Map.
+   * 
+   * This method is useful if you want to join multiple strings into
+   * one without creating a temporary array.
+   * 
+   * Besides String, Array, Set and Map, it can collect numbers into
+   * typed arrays (bigints into BigInt64Array and BigUint64Array),
+   * pairs into plain objects (using Object) or WeakMaps, objects into
+   * WeakSets, and anything into a custom data structure, using a
+   * Collector or a class that implements **FromIter**.
+   * 
+   * @example
+   * const bytes = new Iter([1, 2, 3]).collect(Uint8Array);
+   * const scores = new Iter([["ann", 3], ["bob", 5]]).collect(Object);
+   * 
+   * @param constructor The constructor of the collection.
+   * @returns The collection with the iterator elements.
+   */
+  collect<
+    U extends Constructor<T>,
+    V extends Collection<T, U> = Collection<T, U>,
+  >(
+    constructor: U,
+  ): V {
+    const c = collector<T>(constructor);
+
+    return c.finish(
+      this.fold(c.init(this.len()), (acc, v) => c.extend(acc, v)),
+    ) as V;
+  }
+
+  /**
+   * **extendInto** adds all the Iter's elements to an existing collection,
+   * consuming the iterator. The collection can be an Array, a Set,
+   * a Map or a WeakMap (if the elements are pairs), a WeakSet
+   * (if the elements are objects) or an object that implements **Extend**.
+   * 
+   * @example
+   * const seen = new Set([1, 2]);
+   * new Iter([2, 3]).extendInto(seen);
+   * assertEquals(seen, new Set([1, 2, 3]));
+   * 
+   * @param target The collection to add the elements to.
+   * @returns The given collection.
+   */
+  extendInto<C extends Extendable<T>>(target: C): C {
+    if (isExtend(target)) {
+      target[Extend](this);
+    } else {
+      this.forEach(appender(target));
+    }
+    return target;
+  }
+
+  /**
+   * **join** converts the elements to strings and joins them,
+   * placing the separator between each two adjacent elements.
+   * Unlike **collect** into an array followed by Array's **join**,
+   * null and undefined are converted to "null" and "undefined".
+   * 
+   * @example
+   * assertStrictEquals(new Iter([1, 2, 3]).join(", "), "1, 2, 3");
+   * assertStrictEquals(new Iter([]).join(", "), "");
+   * 
+   * @param separator The string to place between elements
+   */
+  join(separator: string): string {
+    return this.collect(joining({ separator }));
+  }
+
+  /**
+   * **joinWith** converts the elements to strings using the given
+   * function and joins them, placing the separator between each two
+   * adjacent elements.
+   * 
+   * @example
+   * const s = new Iter([1, 2]).joinWith("; ", (v) => v.toFixed(1));
+   * assertStrictEquals(s, "1.0; 2.0");
+   * 
+   * @param separator The string to place between elements
+   * @param toString The function that converts an element to a string
+   */
+  joinWith(separator: string, toString: (v: T) => string): string {
+    return this.collect(joining({ separator }, toString));
+  }
+
+  /**
+   * **concat** joins the elements without a separator. It is the same
+   * as **collect** into String.
+   * 
+   * @example
+   * assertStrictEquals(new Iter(["a", "b"]).concat(), "ab");
+   */
+  concat(): string {
+    return this.join("");
+  }
+
+  /**
+   * **tryCollect** collects the values of an iterator over Results
+   * into a collection, as **collect** does. It stops at the first error
+   * and returns it; otherwise, it returns the collection.
+   * 
+   * @example
+   * const nums = new Iter(["1", "2", "a"])
+   *   .map((s) => okOr(parseIntegral(s), s))
+   *   .tryCollect(Array);
+   * assertEquals(nums, { success: false, value: "a" });
+   * 
+   * @param constructor The constructor of the collection.
+   * @returns The collection with the successful values, or the first error.
+   */
+  tryCollect<
+    U,
+    E,
+    C extends Constructor<U>,
+    V extends Collection<U, C> = Collection<U, C>,
+  >(
+    this: Iter<Result<U, E>>,
+    constructor: C,
+  ): Result<V, E> {
+    const c = collector<U>(constructor);
+    const res = this.tryFold(
+      c.init(this.len()),
+      (acc, res) => ok(res) ? Ok(c.extend(acc, res.value)) : res,
+    );
+
+    return (ok(res) ? Ok(c.finish(res.value)) : res) as Result<V, E>;
+  }
+
+  /**
+   * **groupBy** consumes the iterator, grouping its elements by the
+   * key returned by the given function. Each group is collected into
+   * a collection created with the given constructor, as **collect**
+   * does. Unlike **chunkBy**, the elements don't have to be consecutive
+   * to end up in the same group.
+   * 
+   * The keys in the returned Map are ordered by their first occurrence.
+   * 
+   * @example
+   * const words = ["apple", "bob", "avocado", "banana", "cherry"];
+   * const byLetter = new Iter(words).groupBy((w) => w[0], Array);
+   * assertEquals([...byLetter], [
+   *   ["a", ["apple", "avocado"]],
+   *   ["b", ["bob", "banana"]],
+   *   ["c", ["cherry"]],
+   * ]);
+   * 
+   * @param f The function that computes the key of an element
+   * @param constructor The constructor of the groups' collections
+   * @returns A Map from each key to the collection of its elements
+   */
+  groupBy<
+    K,
+    U extends Constructor<T>,
+    V extends Collection<T, U> = Collection<T, U>,
+  >(
+    f: (v: T) => K,
+    constructor: U,
+  ): Map<K, V> {
+    const c = collector<T>(constructor);
+    const groups = this.fold(new Map<K, unknown>(), (groups, v) => {
+      const key = f(v);
+      const group = groups.has(key) ? groups.get(key) : c.init(None);
+      return groups.set(key, c.extend(group, v));
+    });
+
+    for (const [key, group] of groups) {
+      groups.set(key, c.finish(group));
+    }
+    return groups as Map<K, V>;
+  }
+
+  /**
+   * **partitionResults** consumes an iterator over Results, collecting
+   * the successful values and the errors into separate collections.
+   * 
+   * @example
+   * const [rows, errors] = new Iter(lines)
+   *   .map(parseRow)
+   *   .partitionResults(Array, Array);
+   * 
+   * @param ca The constructor of the successful values' collection.
+   * @param cb The constructor of the errors' collection.
+   * @returns A tuple with the resulted collections.
+   */
+  partitionResults<
+    U,
+    E,
+    A extends Constructor<U>,
+    B extends Constructor<E>,
+    VA extends Collection<U, A> = Collection<U, A>,
+    VB extends Collection<E, B> = Collection<E, B>,
+  >(
+    this: Iter<Result<U, E>>,
+    ca: A,
+    cb: B,
+  ): [VA, VB] {
+    const a = collector<U>(ca);
+    const b = collector<E>(cb);
+
+    const [accA, accB] = this.fold([a.init(None), b.init(None)], (acc, res) => {
+      if (ok(res)) {
+        acc[0] = a.extend(acc[0], res.value);
+      } else {
+        acc[1] = b.extend(acc[1], res.value);
+      }
+      return acc;
+    });
+    return [a.finish(accA), b.finish(accB)] as [VA, VB];
+  }
+
+  /**
+   * **unzip** Converts an iterator of pairs into a pair of containers.
+   * 
+   * It consumes an entire iterator of pairs, producing two collections:
+   * one from the left elements of the pairs, and one from the right elements.
+   *
+   * This function is, in some sense, the opposite of zip.
+   * 
+   * NOTE: The type system tries to prevent calling this method
+   * if Iter's element type isn't a tuple, and ignoring it will
+   * result in a thrown exception.
+   *
+   * @param ca The constructor of the first collection.
+   * @param cb The constructor of the second collection.
+   * @returns A tuple with the resulted collections.
+   */
+  unzip<
+    A extends Constructor<First<T>>,
+    B extends Constructor<Second<T>>,
+    VA extends Collection<First<T>, A> = Collection<First<T>, A>,
+    VB extends Collection<Second<T>, B> = Collection<Second<T>, B>,
+  >(
+    ca: A,
+    cb: B,
+  ): [VA, VB] {
+    const a = collector<First<T>>(ca);
+    const b = collector<Second<T>>(cb);
+
+    const [accA, accB] = this.fold([a.init(None), b.init(None)], (acc, v) => {
+      const [first, second] = v as unknown as [First<T>, Second<T>];
+      acc[0] = a.extend(acc[0], first);
+      acc[1] = b.extend(acc[1], second);
+      return acc;
+    });
+    return [a.finish(accA), b.finish(accB)] as [VA, VB];
+  }
+
+  /**
+   * **unzipN** converts an iterator of tuples of any length into a tuple
+   * of collections, one for each position, created with the given
+   * constructors. It generalizes **unzip** to more than two elements.
+   * 
+   * Only the first elements of each tuple are collected, one for each
+   * constructor, so longer tuples are truncated.
+   * 
+   * @example
+   * const [names, ages, tags] = new Iter<[string, number, string]>([
+   *   ["ann", 31, "a"],
+   *   ["bob", 25, "b"],
+   * ]).unzipN(Array, Set, String);
+   * assertEquals(names, ["ann", "bob"]);
+   * assertEquals(ages, new Set([31, 25]));
+   * assertStrictEquals(tags, "ab");
+   * 
+   * @param constructors The constructors of the collections.
+   * @returns A tuple with the resulted collections.
+   */
+  unzipN<
+    U extends unknown[],
+    C extends { [K in keyof U]: Constructor<U[K]> },
+  >(
+    this: Iter<U>,
+    ...constructors: C
+  ): { [K in keyof C]: Collection<U[K & keyof U], C[K]> } {
+    const collectors = constructors.map((c) => collector(c));
+
+    const accs = this.fold(collectors.map((c) => c.init(None)), (accs, v) => {
+      collectors.forEach((c, i) => accs[i] = c.extend(accs[i], v[i]));
+      return accs;
+    });
+    return collectors.map((c, i) => c.finish(accs[i])) as {
+      [K in keyof C]: Collection<U[K & keyof U], C[K]>;
+    };
+  }
+
+  /**
+   * **partition** consumes the iterator, collecting the elements that
+   * satisfy the predicate and the ones that don't into separate
+   * collections. If the predicate is a type guard, the element types
+   * of both collections are narrowed.
+   * 
+   * @example
+   * const [nums, strs] = new Iter([1, "a", 2])
+   *   .partition((v): v is number => typeof v === "number", Array, String);
+   * assertEquals(nums, [1, 2]);
+   * assertStrictEquals(strs, "a");
+   * 
+   * @param p The predicate that chooses the collection of an element.
+   * @param ca The constructor of the matching elements' collection.
+   * @param cb The constructor of the other elements' collection.
+   * @returns A tuple with the resulted collections.
+   */
+  partition<
+    S extends T,
+    A extends Constructor<S>,
+    B extends Constructor<Exclude<T, S>>,
+    VA extends Collection<S, A> = Collection<S, A>,
+    VB extends Collection<Exclude<T, S>, B> = Collection<Exclude<T, S>, B>,
+  >(
+    p: (v: T) => v is S,
+    ca: A,
+    cb: B,
+  ): [VA, VB];
+  partition<
+    A extends Constructor<T>,
+    B extends Constructor<T>,
+    VA extends Collection<T, A> = Collection<T, A>,
+    VB extends Collection<T, B> = Collection<T, B>,
+  >(
+    p: (v: T) => boolean,
+    ca: A,
+    cb: B,
+  ): [VA, VB];
+  partition(
+    p: (v: T) => boolean,
+    ca: Constructor<T>,
+    cb: Constructor<T>,
+  ): [unknown, unknown] {
+    const a = collector<T>(ca);
+    const b = collector<T>(cb);
+
+    const [accA, accB] = this.fold([a.init(None), b.init(None)], (acc, v) => {
+      if (p(v)) {
+        acc[0] = a.extend(acc[0], v);
+      } else {
+        acc[1] = b.extend(acc[1], v);
+      }
+      return acc;
+    });
+    return [a.finish(accA), b.finish(accB)];
+  }
+
+  /**
+   * **countBy** consumes the iterator, counting its elements by the key
+   * returned by the given function.
+   * 
+   * The keys in the returned Map are ordered by their first occurrence.
+   * 
+   * @example
+   * const counts = new Iter("hello").countBy((c) => c);
+   * assertStrictEquals(counts.get("l"), 2);
+   * 
+   * @param f The function that computes the key of an element
+   * @returns A Map from each key to the number of its elements
+   */
+  countBy<K>(f: (v: T) => K): Map<K, number> {
+    return this.reduceBy(f, 0, (count) => count + 1);
+  }
+
+  /**
+   * **reduceBy** consumes the iterator, folding the elements with the
+   * same key, returned by the given function, into an accumulator
+   * for each key. Every accumulator starts from init, so f should
+   * return a new value rather than modify it, as with **fold**.
+   * 
+   * The keys in the returned Map are ordered by their first occurrence.
+   * 
+   * @example
+   * const orders = [["ann", 3], ["bob", 5], ["ann", 1]] as const;
+   * const totals = new Iter(orders)
+   *   .reduceBy(([name]) => name, 0, (acc, [, n]) => acc + n);
+   * assertEquals([...totals], [["ann", 4], ["bob", 5]]);
+   * 
+   * @param f The function that computes the key of an element
+   * @param init The initial value of each accumulator
+   * @param reduce The function that adds an element to an accumulator
+   * @returns A Map from each key to its accumulated value
+   */
+  reduceBy<K, U>(
+    f: (v: T) => K,
+    init: U,
+    reduce: (acc: U, v: T) => U,
+  ): Map<K, U> {
+    return this.fold(new Map<K, U>(), (accs, v) => {
+      const key = f(v);
+      const acc = accs.has(key) ? accs.get(key) as U : init;
+      return accs.set(key, reduce(acc, v));
+    });
+  }
+}
+
+/**
+ * **Peekable** is an Iter that can look at the next element without
+ * consuming it, by buffering it internally. It is created by
+ * the **peekable** method on Iter.
+ * 
+ * The buffered element is returned by the next call to **next**,
+ * so all the other Iter methods see it as well.
+ * 
+ * @example
+ * // Parse a number from the beginning of the input
+ * const chars = new Iter("123abc").peekable();
+ * let num = 0;
+ * for (
+ *   let digit = chars.nextIf((c) => c >= "0" && c <= "9");
+ *   some(digit);
+ *   digit = chars.nextIf((c) => c >= "0" && c <= "9")
+ * ) {
+ *   num = num * 10 + Number(digit.value);
+ * }
+ * assertStrictEquals(num, 123);
+ * assertStrictEquals(chars.collect(String), "abc");
+ * 
+ * @template T the type to iterate over
+ */
+export class Peekable<T> extends Iter<T> {
+  private peeked: IteratorResult<T> | null = null;
+
+  next(): IteratorResult<T> {
+    if (this.peeked !== null) {
+      const res = this.peeked;
+      this.peeked = null;
+      return res;
+    }
+    return super.next();
+  }
+
+  sizeHint(): SizeHint {
+    if (this.peeked === null) {
+      return super.sizeHint();
+    }
+    if (this.peeked.done) {
+      return [0, 0];
+    }
+    return addHints(super.sizeHint(), [1, 1]);
+  }
+
+  advanceBy(n: number): number {
+    checkCount(n, "number of elements");
+    if (n === 0 || this.peeked === null) {
+      return super.advanceBy(n);
+    }
+    const { done } = this.next();
+    return done ? 0 : 1 + super.advanceBy(n - 1);
+  }
+
+  protected exhaust(): void {
+    super.exhaust();
+    this.peeked = null;
+  }
+
+  last(): Option<T> {
+    const peeked = this.peeked;
+    const last = super.last();
+    if (none(last) && peeked !== null && !peeked.done) {
+      return Some(peeked.value);
+    }
+    return last;
+  }
+
+  /**
+   * **peek** returns the next element without advancing the iterator.
+   * 
+   * @returns The next element, or None if the iterator is done
+   */
+  peek(): Option<T> {
+    if (this.peeked === null) {
+      this.peeked = super.next();
+    }
+    if (this.peeked.done) {
+      return None;
+    }
+    return Some(this.peeked.value);
+  }
+
+  /**
+   * **peekMut** replaces the next element with the result of applying
+   * the given function to it, without advancing the iterator.
+   * 
+   * @example
+   * const iter = new Iter([1, 2, 3]).peekable();
+   * assertEquals(iter.peekMut((n) => n * 10), Some(10));
+   * assertEquals([...iter], [10, 2, 3]);
+   * 
+   * @param f The function that computes the replacement
+   * @returns The replaced next element, or None if the iterator is done
+   */
+  peekMut(f: (v: T) => T): Option<T> {
+    this.peek();
+    if (this.peeked === null || this.peeked.done) {
+      return None;
+    }
+    const value = callOrClose(this, f, this.peeked.value);
+    this.peeked = { value };
+    return Some(value);
+  }
+
+  /**
+   * **nextIf** consumes and returns the next element if it satisfies
+   * the given predicate. Otherwise, the element stays buffered.
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The next element, if it satisfied the predicate
+   */
+  nextIf(p: (v: T) => boolean): Option<T>;
+  nextIf<S extends T>(p: (v: T) => v is S): Option<S>;
+  nextIf(p: (v: T) => boolean): Option<T> {
+    const res = this.next();
+    if (!res.done && callOrClose(this, p, res.value)) {
+      return Some(res.value);
+    }
+    this.peeked = res;
+    return None;
+  }
+
+  /**
+   * **nextIfEq** consumes and returns the next element if it is
+   * strictly equal to the given value.
+   * 
+   * @param expected The value to compare against
+   * @returns The next element, if it was equal to the expected value
+   */
+  nextIfEq(expected: T): Option<T> {
+    return this.nextIf((v) => v === expected);
+  }
+}
+
+/**
+ * **DoubleEndedIter** is an Iter that can also be iterated from the
+ * back, through **nextBack**. Arrays, strings, typed arrays and
+ * bounded ranges can be wrapped in a DoubleEndedIter, and so can
+ * any object that implements the DoubleEndedIterator interface.
+ * 
+ * The adapters that can soundly iterate from the back (such as **map**,
+ * **filter**, **chain** or **skip**) return a DoubleEndedIter as well.
+ * Some of them (**enumerate**, **zip** and **take**) need to know
+ * the number of remaining elements to do so: **nextBack** throws on
+ * them if it is unknown, for example after a **filter**.
+ * 
+ * @example
+ * const iter = new DoubleEndedIter([1, 2, 3, 4, 5]).map((n) => n * 2);
+ * assertStrictEquals(iter.next().value, 2);
+ * assertStrictEquals(iter.nextBack().value, 10);
+ * assertEquals([...iter.rev()], [8, 6, 4]);
+ * 
+ * @template T the type to iterate over
+ */
+export class DoubleEndedIter<T> extends Iter<T> {
+  declare protected iter: DoubleEndedIterator<T>;
+
+  /**
+   * Wraps an array-like object or a double-ended iterator in
+   * a DoubleEndedIter object
+   * 
+   * @param iter The object to wrap
+   */
+  constructor(iter: IntoDoubleEndedIter<T>) {
+    super(toDoubleEndedIterator(iter));
+  }
+
+  /**
+   * **nextBack** advances the iterator from the back, returning the
+   * last element and a done flag that indicates if the iteration ended
+   * 
+   * @example
+   * const it = new DoubleEndedIter([1, 2, 3]);
+   * assertStrictEquals(it.nextBack().value, 3);
+   * assertStrictEquals(it.next().value, 1);
+   * assertStrictEquals(it.nextBack().value, 2);
+   * assert(it.next().done);
+   */
+  nextBack(): IteratorResult<T> {
+    return this.iter.nextBack();
+  }
+
+  /**
+   * **rev** creates an iterator that yields the elements of this
+   * iterator in reverse order.
+   * 
+   * @example
+   * assertEquals([...new DoubleEndedIter("abc").rev()], ["c", "b", "a"]);
+   */
+  rev(): DoubleEndedIter<T> {
+    return new DoubleEndedIter(this.adapter({
+      next: () => this.nextBack(),
+      nextBack: () => this.next(),
+      sizeHint: () => this.sizeHint(),
+    }));
+  }
+
+  /**
+   * **rfold** is the same as **fold**, but it applies the function
+   * to the elements starting from the back.
+   * 
+   * @example
+   * const s = new DoubleEndedIter(["a", "b", "c"]).rfold("", (acc, v) => acc + v);
+   * assertStrictEquals(s, "cba");
+   * 
+   * @param init The accumulator's initial value.
+   * @param f The function to apply
+   * @returns the final accumulator value
+   */
+  rfold<U>(init: U, f: (acc: U, v: T) => U): U {
+    for (
+      let { value, done } = this.nextBack();
+      !done;
+      ({ value, done } = this.nextBack())
+    ) {
+      init = callOrClose(this, f, init, value);
+    }
+    return init;
+  }
+
+  /**
+   * **rfind** finds the last element in the iterator that satisfies the
+   * given predicate, consuming all the elements after it.
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The last element satisfying the predicate, if any
+   */
+  rfind(p: (v: T) => boolean): Option<T>;
+  rfind<S extends T>(p: (v: T) => v is S): Option<S>;
+  rfind(p: (v: T) => boolean): Option<T> {
+    for (
+      let { value, done } = this.nextBack();
+      !done;
+      ({ value, done } = this.nextBack())
+    ) {
+      if (callOrClose(this, p, value)) {
+        this.return();
+        return Some(value);
+      }
+    }
+    return None;
+  }
+
+  /**
+   * **findLast** finds the last element in the iterator that satisfies
+   * the given predicate. Unlike Iter's **findLast**, it searches from
+   * the back, as **rfind** does.
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The last element satisfying the predicate, if any
+   */
+  findLast(p: (v: T) => boolean): Option<T>;
+  findLast<S extends T>(p: (v: T) => v is S): Option<S>;
+  findLast(p: (v: T) => boolean): Option<T> {
+    return this.rfind(p);
+  }
+
+  /**
+   * **advanceBackBy** is the same as **advanceBy**, but it skips
+   * the elements from the back.
+   * 
+   * @param n The number of elements to skip
+   */
+  advanceBackBy(n: number): number {
+    checkCount(n, "number of elements");
+    if (typeof this.iter.advanceBackBy === "function") {
+      return this.iter.advanceBackBy(n);
+    }
+    let skipped = 0;
+    while (skipped < n && !this.nextBack().done) {
+      skipped++;
+    }
+    return skipped;
+  }
+
+  /**
+   * **nthBack** returns the nth element of the iterator, counting from
+   * the back, consuming it and all the elements after it.
+   * 
+   * @example
+   * assertEquals(new DoubleEndedIter([1, 2, 3]).nthBack(0), Some(3));
+   * 
+   * @param n The index of the element, counted from the back
+   */
+  nthBack(n: number): Option<T> {
+    this.advanceBackBy(n);
+    const { value, done } = this.nextBack();
+    return done ? None : Some(value);
+  }
+
+  /**
+   * **rposition** searches for an element satisfying the predicate
+   * starting from the back, and returns its index counted from the front.
+   * 
+   * The number of remaining elements must be known.
+   * 
+   * @example
+   * const index = new DoubleEndedIter([1, 2, 3, 2]).rposition((n) => n === 2);
+   * assertEquals(index, Some(3));
+   * 
+   * @param p The predicate to be satisfied
+   * @returns The index of the last element satisfying the predicate, if any
+   */
+  rposition(p: (v: T) => boolean): Option<number> {
+    let index = exactLen(this);
+    for (
+      let { value, done } = this.nextBack();
+      !done;
+      ({ value, done } = this.nextBack())
+    ) {
+      index--;
+      if (callOrClose(this, p, value)) {
+        this.return();
+        return Some(index);
+      }
+    }
+    return None;
+  }
+
+  /**
+   * **last** returns the last element in the iterator, if any, consuming
+   * the iterator. This takes constant time if the number of remaining
+   * elements is known, else the elements are walked through as Iter's
+   * **last** does.
+   */
+  last(): Option<T> {
+    if (!some(this.len())) {
+      return super.last();
+    }
+    const { value, done } = this.nextBack();
+    this.exhaust();
+    if (done) {
+      return None;
+    }
+    return Some(value);
+  }
+
+  enumerate(): DoubleEndedIter<[number, T]> {
+    let index = 0;
+    const next = (): IteratorResult<[number, T]> => {
+      const { value, done } = this.next();
+      if (done) {
+        return { value, done };
+      }
+      return { value: [index++, value] };
+    };
+    const nextBack = (): IteratorResult<[number, T]> => {
+      const len = exactLen(this);
+      const { value, done } = this.nextBack();
+      if (done) {
+        return { value, done };
+      }
+      return { value: [index + len - 1, value] };
+    };
+
+    return new DoubleEndedIter(this.adapter({
+      next,
+      nextBack,
+      sizeHint: () => this.sizeHint(),
+    }));
+  }
+
+  filter(p: (v: T) => boolean): DoubleEndedIter<T>;
+  filter<S extends T>(p: (v: T) => v is S): DoubleEndedIter<S>;
+  filter(p: (v: T) => boolean): DoubleEndedIter<T> {
+    const front = super.filter(p);
+    const nextBack = (): IteratorResult<T> => {
+      for (let res = this.nextBack(); !res.done; res = this.nextBack()) {
+        if (callOrClose(this, p, res.value)) {
+          return res;
+        }
+      }
+      return { value: undefined, done: true };
+    };
+
+    return new DoubleEndedIter(this.adapter({
+      next: () => front.next(),
+      nextBack,
+      sizeHint: () => upperHint(this.sizeHint()),
+    }));
+  }
+
+  map<U>(f: (v: T) => U): DoubleEndedIter<U> {
+    const front = super.map(f);
+    const nextBack = (): IteratorResult<U> => {
+      const { value, done } = this.nextBack();
+      if (done) {
+        return { value, done };
+      }
+      return { value: callOrClose(this, f, value) };
+    };
+
+    return new DoubleEndedIter(this.adapter({
+      next: () => front.next(),
+      nextBack,
+      sizeHint: () => this.sizeHint(),
+    }));
+  }
+
+  take(n: number): DoubleEndedIter<T> {
+    checkCount(n, "number of elements");
+    let remaining = n;
+    const next = (): IteratorResult<T> => {
+      if (remaining <= 0) {
+        return this.return();
+      }
+      remaining--;
+      return this.next();
+    };
+    const nextBack = (): IteratorResult<T> => {
+      if (remaining <= 0) {
+        return this.return();
+      }
+      for (let extra = exactLen(this) - remaining; extra > 0; extra--) {
+        this.nextBack();
+      }
+      remaining--;
+      return this.nextBack();
+    };
+
+    return new DoubleEndedIter(this.adapter({
+      next,
+      nextBack,
+      sizeHint: () => takeHint(this.sizeHint(), remaining),
+    }));
+  }
+
+  skip(n: number): DoubleEndedIter<T> {
+    checkCount(n, "number of elements");
+    let remaining = n;
+    const skipFront = () => {
+      while (remaining > 0) {
+        remaining--;
+        if (this.next().done) {
+          remaining = 0;
+        }
+      }
+    };
+
+    return new DoubleEndedIter(this.adapter({
+      next: () => (skipFront(), this.next()),
+      nextBack: () => (skipFront(), this.nextBack()),
+      sizeHint: () => skipHint(this.sizeHint(), remaining),
+    }));
+  }
+
+  zip<U>(other: IntoDoubleEndedIter<U>): DoubleEndedIter<[T, U]>;
+  zip<U>(other: IntoIter<U>): Iter<[T, U]>;
+  zip<U>(other: IntoIter<U> | IntoDoubleEndedIter<U>): Iter<[T, U]> {
+    if (!isIntoDoubleEndedIter(other)) {
+      return super.zip(other);
+    }
+
+    const rhs = fromIntoDoubleEndedIter(other);
+    const front = super.zip(rhs);
+    const nextBack = (): IteratorResult<[T, U]> => {
+      const lhsLen = exactLen(this);
+      const rhsLen = exactLen(rhs);
+      for (let extra = lhsLen - rhsLen; extra > 0; extra--) {
+        this.nextBack();
+      }
+      for (let extra = rhsLen - lhsLen; extra > 0; extra--) {
+        rhs.nextBack();
+      }
+      const l = this.nextBack();
+      const r = rhs.nextBack();
+      if (l.done || r.done) {
+        return { value: undefined, done: true };
+      }
+      return { value: [l.value, r.value] };
+    };
+
+    return new DoubleEndedIter(this.adapter({
+      next: () => front.next(),
+      nextBack,
+      sizeHint: () => minHints(this.sizeHint(), rhs.sizeHint()),
+    }, () => rhs.return()));
+  }
+
+  chain(...others: IntoDoubleEndedIter<T>[]): DoubleEndedIter<T>;
+  chain(...others: IntoIter<T>[]): Iter<T>;
+  chain(...others: (IntoIter<T> | IntoDoubleEndedIter<T>)[]): Iter<T> {
+    if (!others.every(isIntoDoubleEndedIter)) {
+      return super.chain(...others as IntoIter<T>[]);
+    }
+
+    const iters = [this, ...others.map(fromIntoDoubleEndedIter)];
+    const front = super.chain(...iters.slice(1));
+    let current = iters.length - 1;
+    const nextBack = (): IteratorResult<T> => {
+      while (current >= 0) {
+        const res = iters[current].nextBack();
+        if (!res.done) {
+          return res;
+        }
+        current--;
+      }
+      return { value: undefined, done: true };
+    };
+
+    return new DoubleEndedIter(this.adapter({
+      next: () => front.next(),
+      nextBack,
+      sizeHint: () => iters.map((iter) => iter.sizeHint()).reduce(addHints),
+    }, () => iters.slice(1).forEach((iter) => iter.return())));
   }
 }
 
-type First<T> = [T] extends [[infer K, unknown]] ? K : never;
-type Second<T> = [T] extends [[unknown, infer K]] ? K : never;
+const isIntoDoubleEndedIter = <T>(
+  i: IntoIter<T> | IntoDoubleEndedIter<T>,
+): i is IntoDoubleEndedIter<T> =>
+  typeof i === "string" || "nextBack" in i || "length" in i;
@@ -0,0 +1,54 @@
+import {
+  assert,
+  assertEquals,
+  assertStrictEquals,
+} from "https://deno.land/std/testing/asserts.ts";
+
+import {
+  andThen,
+  filter,
+  fromNullable,
+  iter,
+  map,
+  None,
+  none,
+  okOr,
+  Some,
+  some,
+  toNullable,
+  unwrapOr,
+  zip,
+} from "./option.ts";
+
+Deno.test("option: Some and None", () => {
+  assert(some(Some(1)));
+  assert(some(Some(null)), "Some shall hold null");
+  assert(some(Some(undefined)), "Some shall hold undefined");
+  assert(none(None));
+  assert(!none(Some(null)));
+});
+
+Deno.test("option: combinators", () => {
+  assertEquals(map(Some(2), (n) => n * 2), Some(4));
+  assertStrictEquals(map(None, (n: number) => n * 2), None);
+  assertEquals(andThen(Some("1"), (s) => Some(Number(s))), Some(1));
+  assertStrictEquals(andThen(Some("1"), () => None), None);
+  assertStrictEquals(unwrapOr(Some(null), 1), null);
+  assertStrictEquals(unwrapOr(None, 1), 1);
+  assertEquals(okOr(Some(1), "err"), { success: true, value: 1 });
+  assertEquals(okOr(None, "err"), { success: false, value: "err" });
+  assertEquals(filter(Some(2), (n) => n % 2 === 0), Some(2));
+  assertStrictEquals(filter(Some(1), (n) => n % 2 === 0), None);
+  assertEquals(zip(Some(1), Some("a")), Some([1, "a"]));
+  assertStrictEquals(zip(Some(1), None), None);
+  assertEquals([...iter(Some(1))], [1]);
+  assertEquals([...iter(None)], []);
+});
+
+Deno.test("option: nullable conversions", () => {
+  assertStrictEquals(toNullable(Some(1)), 1);
+  assertStrictEquals(toNullable(None), null);
+  assertEquals(fromNullable(0), Some(0));
+  assertStrictEquals(fromNullable(null), None);
+  assertStrictEquals(fromNullable(undefined), None);
+});
@@ -1,20 +1,154 @@
+import { Result } from "./result.ts";
+import { DoubleEndedIter } from "./mod.ts";
+
+export type Some<T> = { some: true; value: T };
+export type None = { some: false };
 /**
  * Option represents a value that may or may not exist.
+ * An object is of type Option if it has a some field, which indicates
+ * whether a value exists, and, if it does, a value field which holds it.
+ * 
+ * Unlike a nullable value, an Option can hold null and undefined, so
+ * a method such as Iter's **find** can tell apart an iterator without
+ * a matching element from one whose matching element is null.
+ * 
+ * This type resembles Rust's [Option](https://doc.rust-lang.org/std/option/).
+ * Use **Some** and **None** to create Options, the **some** and **none**
+ * guards to check them and the functions in this module to transform them.
+ * 
+ * @example
+ * 
+ * const first = new Iter([null, 1]).find(() => true);
+ * assert(some(first));
+ * assertStrictEquals(first.value, null);
+ * assertStrictEquals(unwrapOr(map(first, (v) => v ?? 0), -1), 0);
+ */
+export type Option<T> = Some<T> | None;
+
+/**
+ * **Some** creates an Option that holds the given value
+ * @param value The value to hold
+ */
+export function Some<T>(value: T): Some<T> {
+  return { some: true, value };
+}
+
+/**
+ * **None** is the Option that holds no value
+ */
+export const None: None = Object.freeze({ some: false } as const);
+
+/**
+ * **some** checks if the Option passed holds a value
+ * @param option An optional value
+ */
+export function some<T>(option: Option<T>): option is Some<T> {
+  return option.some;
+}
+
+/**
+ * **none** checks if the Option passed holds no value
+ * @param option An optional value
+ */
+export function none<T>(option: Option<T>): option is None {
+  return !option.some;
+}
+
+/**
+ * **map** applies the function to the value of the Option, if any
+ * @param option An optional value
+ * @param f The function to apply
+ */
+export function map<T, U>(option: Option<T>, f: (v: T) => U): Option<U> {
+  return option.some ? Some(f(option.value)) : None;
+}
+
+/**
+ * **andThen** applies the function to the value of the Option, if any,
+ * and returns the Option it produced
+ * @param option An optional value
+ * @param f The function to apply
+ */
+export function andThen<T, U>(
+  option: Option<T>,
+  f: (v: T) => Option<U>,
+): Option<U> {
+  return option.some ? f(option.value) : None;
+}
+
+/**
+ * **unwrapOr** returns the value of the Option, if any, else the default
+ * @param option An optional value
+ * @param def The value to return if the Option holds no value
+ */
+export function unwrapOr<T>(option: Option<T>, def: T): T {
+  return option.some ? option.value : def;
+}
+
+/**
+ * **okOr** turns the Option into a Result, which is successful if the
+ * Option holds a value, else it holds the given error
+ * @param option An optional value
+ * @param error The error to use if the Option holds no value
+ */
+export function okOr<T, E>(option: Option<T>, error: E): Result<T, E> {
+  if (option.some) {
+    return { success: true, value: option.value };
+  }
+  return { success: false, value: error };
+}
+
+/**
+ * **filter** returns the Option if its value satisfies the predicate,
+ * else None
+ * @param option An optional value
+ * @param p The predicate to be satisfied
+ */
+export function filter<T, S extends T>(
+  option: Option<T>,
+  p: (v: T) => v is S,
+): Option<S>;
+export function filter<T>(option: Option<T>, p: (v: T) => boolean): Option<T>;
+export function filter<T>(option: Option<T>, p: (v: T) => boolean): Option<T> {
+  return option.some && p(option.value) ? option : None;
+}
+
+/**
+ * **zip** combines two Options into an Option of a pair, which holds
+ * a value only if both Options do
+ * @param lhs The first optional value
+ * @param rhs The second optional value
  */
-export type Option<T> = T | null;
+export function zip<T, U>(lhs: Option<T>, rhs: Option<U>): Option<[T, U]> {
+  if (lhs.some && rhs.some) {
+    return Some([lhs.value, rhs.value]);
+  }
+  return None;
+}
+
+/**
+ * **iter** creates an iterator that yields the value of the Option, if any
+ * @param option An optional value
+ */
+export function iter<T>(option: Option<T>): DoubleEndedIter<T> {
+  return new DoubleEndedIter(option.some ? [option.value] : []);
+}
 
 /**
- * **some** checks if the Option passed is a non-null value
- * @param value An optional value
+ * **toNullable** returns the value of the Option, if any, else null.
+ * It eases the migration from nullable values, but null values held by
+ * the Option can't be told apart from None anymore.
+ * @param option An optional value
  */
-export function some<T>(value: Option<T>): value is T {
-  return value !== null;
+export function toNullable<T>(option: Option<T>): T | null {
+  return option.some ? option.value : null;
 }
 
 /**
- * **none** checks if the Option passed is a null value
- * @param value An optional value
+ * **fromNullable** creates an Option that holds the given value,
+ * if it isn't null or undefined, else None
+ * @param value A nullable value
  */
-export function none<T>(value: Option<T>): value is null {
-  return value === null;
+export function fromNullable<T>(value: T | null | undefined): Option<T> {
+  return value === null || value === undefined ? None : Some(value);
 }
@@ -0,0 +1,49 @@
+import {
+  assert,
+  assertEquals,
+  assertStrictEquals,
+  assertThrows,
+} from "https://deno.land/std/testing/asserts.ts";
+
+import {
+  andThen,
+  Err,
+  err,
+  expect,
+  fromPromise,
+  fromThrowable,
+  map,
+  mapErr,
+  Ok,
+  ok,
+  unwrapOr,
+} from "./result.ts";
+
+Deno.test("result: Ok and Err", () => {
+  assert(ok(Ok(1)));
+  assert(err(Err("e")));
+  assertEquals(Ok(null), { success: true, value: null });
+  assertEquals(Err("e"), { success: false, value: "e" });
+});
+
+Deno.test("result: combinators", () => {
+  assertEquals(map(Ok(2), (n: number) => n * 2), Ok(4));
+  assertEquals(map(Err("e"), (n: number) => n * 2), Err("e"));
+  assertEquals(mapErr(Err("e"), (e: string) => e.length), Err(1));
+  assertEquals(mapErr(Ok(1), (e: string) => e.length), Ok(1));
+  assertEquals(andThen(Ok(1), (n: number) => Ok(n + 1)), Ok(2));
+  assertEquals(andThen(Ok(1), () => Err("e")), Err("e"));
+  assertEquals(andThen(Err("e"), (n: number) => Ok(n + 1)), Err("e"));
+  assertStrictEquals(unwrapOr(Ok(1), 2), 1);
+  assertStrictEquals(unwrapOr(Err("e"), 2), 2);
+  assertStrictEquals(expect(Ok(1), "shall not throw"), 1);
+  assertThrows(() => expect(Err("e"), "no value"), Error, "no value");
+});
+
+Deno.test("result: from throwable and promise", async () => {
+  assertEquals(fromThrowable(() => JSON.parse("[1]")), Ok([1]));
+  const res = fromThrowable(() => JSON.parse("{"));
+  assert(err(res) && res.value instanceof SyntaxError);
+  assertEquals(await fromPromise(Promise.resolve(1)), Ok(1));
+  assertEquals(await fromPromise(Promise.reject("e")), Err("e"));
+});
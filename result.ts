@@ -1,5 +1,5 @@
-type Ok<T> = { success: true; value: T };
-type Err<E> = { success: false; value: E };
+export type Ok<T> = { success: true; value: T };
+export type Err<E> = { success: false; value: E };
 /**
  * **Result** represents either a successful value or an error.
  * An object is of type Result if it has 2 fields: success and value,
@@ -38,3 +38,114 @@ export function ok<T, E>(result: Result<T, E>): result is Ok<T> {
 export function err<T, E>(result: Result<T, E>): result is Err<E> {
   return !result.success;
 }
+
+/**
+ * **Ok** creates a successful Result that holds the given value
+ * @param value The successful value
+ */
+export function Ok<T>(value: T): Ok<T> {
+  return { success: true, value };
+}
+
+/**
+ * **Err** creates a Result that holds the given error
+ * @param error The error
+ */
+export function Err<E>(error: E): Err<E> {
+  return { success: false, value: error };
+}
+
+/**
+ * **map** applies the function to the value of the Result, if it is
+ * successful, leaving errors untouched
+ * @param result A result
+ * @param f The function to apply
+ */
+export function map<T, U, E>(
+  result: Result<T, E>,
+  f: (v: T) => U,
+): Result<U, E> {
+  return result.success ? Ok(f(result.value)) : result;
+}
+
+/**
+ * **mapErr** applies the function to the error of the Result, if it is
+ * an error, leaving successful values untouched
+ * @param result A result
+ * @param f The function to apply
+ */
+export function mapErr<T, E, F>(
+  result: Result<T, E>,
+  f: (e: E) => F,
+): Result<T, F> {
+  return result.success ? result : Err(f(result.value));
+}
+
+/**
+ * **andThen** applies the function to the value of the Result, if it is
+ * successful, and returns the Result it produced
+ * @param result A result
+ * @param f The function to apply
+ */
+export function andThen<T, U, E>(
+  result: Result<T, E>,
+  f: (v: T) => Result<U, E>,
+): Result<U, E> {
+  return result.success ? f(result.value) : result;
+}
+
+/**
+ * **unwrapOr** returns the value of the Result, if it is successful,
+ * else the default
+ * @param result A result
+ * @param def The value to return if the Result is an error
+ */
+export function unwrapOr<T, E>(result: Result<T, E>, def: T): T {
+  return result.success ? result.value : def;
+}
+
+/**
+ * **expect** returns the value of the Result, if it is successful,
+ * else it throws an Error with the given message, caused by the error
+ * @param result A result
+ * @param message The message of the thrown Error
+ */
+export function expect<T, E>(result: Result<T, E>, message: string): T {
+  if (!result.success) {
+    throw new Error(message, { cause: result.value });
+  }
+  return result.value;
+}
+
+/**
+ * **fromThrowable** calls the function, returning its return value
+ * as a successful Result, or the thrown value as an error
+ * 
+ * @example
+ * const config = fromThrowable(() => JSON.parse(text));
+ * 
+ * @param f The function to call
+ */
+export function fromThrowable<T>(f: () => T): Result<T, unknown> {
+  try {
+    return Ok(f());
+  } catch (e) {
+    return Err(e);
+  }
+}
+
+/**
+ * **fromPromise** resolves to a successful Result with the value
+ * the promise resolved to, or to an error with the reason it was
+ * rejected with
+ * 
+ * @example
+ * const res = await fromPromise(fetch(url));
+ * 
+ * @param promise The promise to await
+ */
+export function fromPromise<T>(
+  promise: PromiseLike<T>,
+): Promise<Result<T, unknown>> {
+  return Promise.resolve(promise).then(Ok, Err);
+}
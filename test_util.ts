@@ -0,0 +1,28 @@
+/**
+ * **closeCounter** returns generator functions that yield the given
+ * values and count in counter.closed how many of the generators they
+ * made were closed, either by finishing or by being returned early.
+ */
+export const closeCounter = () => {
+  const counter = { closed: 0 };
+  function* values<T>(...vs: T[]): Generator<T> {
+    try {
+      for (const v of vs) {
+        yield v;
+      }
+    } finally {
+      counter.closed++;
+    }
+  }
+  async function* asyncValues<T>(...vs: T[]): AsyncGenerator<T> {
+    try {
+      for (const v of vs) {
+        await Promise.resolve();
+        yield v;
+      }
+    } finally {
+      counter.closed++;
+    }
+  }
+  return { counter, values, asyncValues };
+};
@@ -1,8 +1,25 @@
-import { cmpNumbers, parseIntegral, range } from "./util.ts";
-import { none, some } from "./option.ts";
+import {
+  binarySearchBy,
+  cmpNumbers,
+  empty,
+  fromFn,
+  once,
+  parseIntegral,
+  partitionInPlace,
+  range,
+  repeat,
+  repeatN,
+  repeatWith,
+  successors,
+  unfold,
+} from "./util.ts";
+import { None, none, Some, some } from "./option.ts";
+import Iter from "./mod.ts";
+import { Err, Ok } from "./result.ts";
 import {
   assert,
   assertEquals,
+  assertStrictEquals,
   assertThrows,
 } from "https://deno.land/std@0.85.0/testing/asserts.ts";
 
@@ -14,20 +31,47 @@ Deno.test("utilities: parseIntegral", () => {
 Deno.test("utilities: cmpNumbers", () => {
   {
     const res = cmpNumbers(1, 1);
-    assert(some(res) && res === 0);
+    assert(some(res) && res.value === 0);
   }
   {
     const res = cmpNumbers(1, 2);
-    assert(some(res) && res < 0);
+    assert(some(res) && res.value < 0);
   }
   {
     const res = cmpNumbers(43, 21);
-    assert(some(res) && res > 0);
+    assert(some(res) && res.value > 0);
   }
   assert(none(cmpNumbers(1, NaN)));
   assert(none(cmpNumbers(NaN, 32)));
 });
 
+Deno.test("utilities: binarySearchBy", () => {
+  const cmp = (lhs: number, rhs: number) => lhs - rhs;
+  const arr = [1, 3, 5, 7];
+  assertEquals(binarySearchBy(arr, 1, cmp), Ok(0));
+  assertEquals(binarySearchBy(arr, 7, cmp), Ok(3));
+  assertEquals(binarySearchBy(arr, 0, cmp), Err(0));
+  assertEquals(binarySearchBy(arr, 4, cmp), Err(2));
+  assertEquals(binarySearchBy(arr, 8, cmp), Err(4));
+  assertEquals(binarySearchBy([], 1, cmp), Err(0));
+
+  const people = [{ age: 20 }, { age: 31 }, { age: 45 }];
+  const byAge = (p: { age: number }, age: number) => p.age - age;
+  assertEquals(binarySearchBy(people, 31, byAge), Ok(1));
+});
+
+Deno.test("utilities: partitionInPlace", () => {
+  const arr = [1, 2, 3, 4, 5, 6, 7];
+  const isEven = (n: number) => n % 2 === 0;
+  assertStrictEquals(partitionInPlace(arr, isEven), 3);
+  assert(arr.slice(0, 3).every(isEven));
+  assert(!arr.slice(3).some(isEven));
+  assertEquals(arr.slice().sort(), [1, 2, 3, 4, 5, 6, 7]);
+  assertStrictEquals(partitionInPlace([], isEven), 0);
+  assertStrictEquals(partitionInPlace([2, 4], isEven), 2);
+  assertStrictEquals(partitionInPlace([1, 3], isEven), 0);
+});
+
 Deno.test("utilities: range", () => {
   assertEquals([...range(5)], [0, 1, 2, 3, 4]);
   assertEquals([...range(3, 7)], [3, 4, 5, 6]);
@@ -35,6 +79,12 @@ Deno.test("utilities: range", () => {
   assertEquals([...range(2, 3, true)], [2, 3]);
   assertEquals([...range(2, 8, 2)], [2, 4, 6]);
   assertEquals([...range(2, 6, 2, true)], [2, 4, 6]);
+  {
+    const iter = range(1, 6, 2, true);
+    assertStrictEquals(iter.nextBack().value, 5);
+    assertEquals(iter.sizeHint(), [2, 2]);
+    assertEquals([...iter], [1, 3]);
+  }
   assertThrows(
     () => [...range(-1)],
     Error,
@@ -46,3 +96,172 @@ Deno.test("utilities: range", () => {
     "Invalid range: begin 5 is greater than end 3",
   );
 });
+
+Deno.test("utilities: range with steps", () => {
+  assertEquals([...range(3, 0, -1)], [3, 2, 1]);
+  assertEquals([...range(3, 0, -1, true)], [3, 2, 1, 0]);
+  assertEquals([...range(3, 3)], []);
+  assertEquals(range(0, 0.3, 0.1).length, 3);
+  assertEquals(range(0, 0.7, 0.1, true).length, 8);
+  assertEquals(range(0, 1, 0.1).nth(7), Some(0.1 * 7));
+  assertEquals([...range(10n, 0n, -3n)], [10n, 7n, 4n, 1n]);
+  assertEquals([...range(3n)], [0n, 1n, 2n]);
+  assertEquals([...range(1n, 3n, true)], [1n, 2n, 3n]);
+  assertThrows(
+    () => range(0, 5, 0),
+    RangeError,
+    "Invalid range: step 0 must not be zero",
+  );
+  assertThrows(
+    () => range(0n, 5n, 0n),
+    RangeError,
+    "Invalid range: step 0 must not be zero",
+  );
+  assertThrows(
+    () => range(0, 5, -1),
+    RangeError,
+    "Invalid range: begin 0 is less than end 5",
+  );
+});
+
+Deno.test("utilities: RangeIter after being consumed", () => {
+  {
+    const iter = range(10);
+    assertStrictEquals(iter.count(), 10);
+    assertStrictEquals(iter.length, 0);
+    assert(!iter.includes(3));
+    assertEquals([...iter.rev()], []);
+    assertEquals([...iter.slice(0, 2)], []);
+    assertEquals([...iter], []);
+  }
+  {
+    const iter = range(4);
+    assertEquals(iter.last(), Some(3));
+    assertStrictEquals(iter.length, 0);
+    assert(!iter.includes(0));
+    assertEquals([...iter.rev()], []);
+  }
+  {
+    const iter = range(4);
+    assertEquals([...iter], [0, 1, 2, 3]);
+    assertStrictEquals(iter.length, 0);
+  }
+});
+
+Deno.test("utilities: range with non-finite bounds", () => {
+  assertThrows(
+    () => range(0, NaN),
+    RangeError,
+    "Invalid range: bounds 0 and NaN",
+  );
+  assertThrows(
+    () => range(NaN, 3),
+    RangeError,
+    "Invalid range: bounds NaN and 3",
+  );
+  assertThrows(() => range(NaN), RangeError, "Invalid range");
+  assertThrows(
+    () => range(-Infinity, 0),
+    RangeError,
+    "Invalid range: begin -Infinity must be finite",
+  );
+  assertThrows(
+    () => range(0, 1e20),
+    RangeError,
+    "Invalid range: too many elements",
+  );
+
+  for (
+    const iter of [
+      range(Infinity),
+      range(0, Infinity),
+      range(0, Infinity, true),
+    ]
+  ) {
+    assertStrictEquals(iter.length, Infinity);
+    assertEquals(iter.sizeHint(), [Infinity, null]);
+    assertEquals(iter.take(3).collect(Array), [0, 1, 2]);
+  }
+  const down = range(0, -Infinity, -2);
+  assertEquals(down.nth(2), Some(-4));
+  assert(down.includes(-1000));
+  assert(!down.includes(2));
+  assertEquals([...down.slice(1, 3)], [-8, -10]);
+  assertThrows(() => down.nextBack(), RangeError, "infinite range");
+  assertThrows(() => down.rev(), RangeError, "infinite range");
+  assertThrows(() => down.slice(-2), RangeError, "infinite range");
+});
+
+Deno.test("utilities: RangeIter", () => {
+  const iter = range(0, 100, 10);
+  assertStrictEquals(iter.length, 10);
+  assert(iter.includes(30));
+  assert(!iter.includes(35));
+  assert(!iter.includes(100));
+  assertEquals(iter.nth(2), Some(20));
+  assertStrictEquals(iter.length, 7);
+  assert(!iter.includes(20));
+  assertEquals([...iter.slice(1, -3)], [40, 50, 60]);
+  assertEquals([...iter.slice(-2)], [80, 90]);
+  assertEquals([...iter.slice(5, 2)], []);
+  assertEquals([...iter.rev().take(3)], [90, 80, 70]);
+  assertStrictEquals(iter.length, 7);
+  assertEquals(iter.nthBack(7), None);
+  assertStrictEquals(iter.length, 0);
+  assertEquals([...iter.rev()], []);
+
+  const big = range(0n, 10n ** 15n, 3n);
+  assert(big.includes(3n * 10n ** 14n));
+  assert(!big.includes(10n ** 14n + 1n));
+  assertEquals(big.nth(2), Some(6n));
+  assertEquals([...big.slice(0, 2)], [9n, 12n]);
+  assertThrows(() => range(0n, 10n ** 20n), RangeError);
+});
+
+Deno.test("utilities: repeat, repeatN and repeatWith", () => {
+  assertEquals(repeat("a").sizeHint(), [Infinity, null]);
+  assertEquals(repeat("a").take(2).collect(Array), ["a", "a"]);
+  const three = repeatN(1, 3);
+  assertEquals(three.sizeHint(), [3, 3]);
+  assertStrictEquals(three.nextBack().value, 1);
+  assertEquals([...three], [1, 1]);
+  assertEquals([...repeatN(1, 0)], []);
+  assertEquals(repeatN(0, 5).nth(4), Some(0));
+  assertThrows(() => repeatN(0, -1), RangeError);
+  let calls = 0;
+  assertEquals(repeatWith(() => ++calls).take(3).collect(Array), [1, 2, 3]);
+  assertStrictEquals(calls, 3, "shall be lazy");
+});
+
+Deno.test("utilities: once and empty", () => {
+  assertEquals(new Iter([1]).chain(once(2)).collect(Array), [1, 2]);
+  assertEquals(once(1).sizeHint(), [1, 1]);
+  assertEquals([...once(1).rev()], [1]);
+  assertEquals(empty().sizeHint(), [0, 0]);
+  assertEquals([...empty<number>().chain([1])], [1]);
+});
+
+Deno.test("utilities: fromFn", () => {
+  let count = 0;
+  const counter = fromFn(() => count < 3 ? Some(++count) : None);
+  assertEquals([...counter], [1, 2, 3]);
+  assert(counter.next().done);
+  assertStrictEquals(count, 3, "shall not be called after None");
+  assertEquals([...fromFn(() => None)], []);
+});
+
+Deno.test("utilities: successors and unfold", () => {
+  const powers = successors(Some(1), (n) => n < 100 ? Some(n * 10) : None);
+  assertEquals(powers.sizeHint(), [1, null]);
+  assertEquals([...powers], [1, 10, 100]);
+  assertEquals(powers.sizeHint(), [0, 0]);
+  assertEquals([...successors(None, (n: number) => Some(n))], []);
+
+  const fib = unfold([0, 1], ([a, b]) => Some([a, [b, a + b]]));
+  assertEquals(fib.take(6).collect(Array), [0, 1, 1, 2, 3, 5]);
+  const digits = unfold(
+    123,
+    (n) => n > 0 ? Some([n % 10, Math.floor(n / 10)]) : None,
+  );
+  assertEquals([...digits], [3, 2, 1]);
+});
@@ -1,18 +1,91 @@
-import { Option, some } from "./option.ts";
+import { None, Option, Some } from "./option.ts";
+import { Err, Ok, Result } from "./result.ts";
+import type { Comparator } from "./cmp.ts";
+import Iter, { DoubleEndedIter, DoubleEndedIterator, SizeHint } from "./mod.ts";
+
+export { cmpNumbers } from "./cmp.ts";
 
 export function parseIntegral(s: string): Option<number> {
   const num = parseInt(s);
   if (Number.isNaN(num)) {
-    return null;
+    return None;
+  }
+  return Some(num);
+}
+
+/**
+ * **binarySearchBy** searches the sorted array-like object for
+ * an element equal to the target, with respect to the comparator,
+ * in logarithmic time.
+ * 
+ * If found, the index of the element is returned as a success. If
+ * there are multiple equal elements, any of their indices may be returned.
+ * Otherwise, the error is the index where the target could be inserted
+ * while keeping the array sorted.
+ * 
+ * @example
+ * const arr = [1, 3, 5];
+ * const cmp = (lhs: number, rhs: number) => lhs - rhs;
+ * assertEquals(binarySearchBy(arr, 3, cmp), Ok(1));
+ * assertEquals(binarySearchBy(arr, 4, cmp), Err(2));
+ * 
+ * @param arr The sorted array-like object to search
+ * @param target The value to search for
+ * @param cmp The comparator the array is sorted by
+ */
+export function binarySearchBy<T, U>(
+  arr: ArrayLike<T>,
+  target: U,
+  cmp: Comparator<T, U>,
+): Result<number, number> {
+  let low = 0;
+  let high = arr.length;
+  while (low < high) {
+    const mid = low + ((high - low) >> 1);
+    const ord = cmp(arr[mid], target);
+    if (ord < 0) {
+      low = mid + 1;
+    } else if (ord > 0) {
+      high = mid;
+    } else {
+      return Ok(mid);
+    }
   }
-  return num;
+  return Err(low);
 }
 
-export function cmpNumbers(lhs: number, rhs: number): Option<number> {
-  if (Number.isNaN(lhs) || Number.isNaN(rhs)) {
-    return null;
+/**
+ * **partitionInPlace** reorders the elements of the array, so that
+ * the ones that satisfy the predicate come before the ones that don't,
+ * without allocating. The relative order of the elements isn't kept.
+ * 
+ * @example
+ * const arr = [1, 2, 3, 4, 5];
+ * const evens = partitionInPlace(arr, (n) => n % 2 === 0);
+ * assertStrictEquals(evens, 2);
+ * assert(arr.slice(0, evens).every((n) => n % 2 === 0));
+ * 
+ * @param arr The array to reorder
+ * @param p The predicate to check
+ * @returns The number of elements that satisfy the predicate
+ */
+export function partitionInPlace<T>(arr: T[], p: (v: T) => boolean): number {
+  let low = 0;
+  let high = arr.length;
+  for (;;) {
+    while (low < high && p(arr[low])) {
+      low++;
+    }
+    while (low < high && !p(arr[high - 1])) {
+      high--;
+    }
+    if (low >= high) {
+      return low;
+    }
+    [arr[low], arr[high - 1]] = [arr[high - 1], arr[low]];
+    low++;
+    high--;
   }
-  return lhs - rhs;
 }
 
 /**
@@ -20,24 +93,24 @@ export function cmpNumbers(lhs: number, rhs: number): Option<number> {
  */
 export function range(): IterableIterator<number>;
 /**
- * **range** returns a generator that yields numbers from 0 to len - 1.
+ * **range** returns an iterator that yields numbers from 0 to len - 1.
  * Pass `true` as the next argument to get an inclusive range.
  * 
  * @param len The number of elements to generate.
  */
-export function range(len: number): IterableIterator<number>;
-export function range(stop: number, inclusive: true): IterableIterator<number>;
+export function range(len: number): RangeIter<number>;
+export function range(stop: number, inclusive: true): RangeIter<number>;
 /**
- * **range** returns a generator that yields numbers from start to stop - 1.
+ * **range** returns an iterator that yields numbers from start to stop - 1.
  * Pass `true` as the next argument to get an inclusive range.
  * 
  * @param start The number to start from.
  * @param stop The number to end before.
  */
-export function range(start: number, stop: number): IterableIterator<number>;
+export function range(start: number, stop: number): RangeIter<number>;
 /**
- * **range** returns a generator that yields numbers from start to stop.
- *  
+ * **range** returns an iterator that yields numbers from start to stop.
+ * 
  * @param start The number to start from.
  * @param stop The number to end at.
  */
@@ -45,12 +118,17 @@ export function range(
   start: number,
   stop: number,
   inclusive: true,
-): IterableIterator<number>;
+): RangeIter<number>;
 /**
- * **range** returns a generator that yields numbers in range [start, stop),
- * iterating with the given step.
+ * **range** returns an iterator that yields numbers in range [start, stop),
+ * iterating with the given step. The step can be negative, to count down
+ * from start to stop, but it can't be zero.
  * Pass `true` as the next argument to get an inclusive range.
  * 
+ * @example
+ * assertEquals([...range(3, 0, -1)], [3, 2, 1]);
+ * assertEquals([...range(0, 1, 0.25, true)], [0, 0.25, 0.5, 0.75, 1]);
+ * 
  * @param start The number to start at.
  * @param stop The number to end before.
  * @param step The iteration step.
@@ -59,9 +137,9 @@ export function range(
   start: number,
   stop: number,
   step: number,
-): IterableIterator<number>;
+): RangeIter<number>;
 /**
- * **range** returns a generator that yields numbers in range [start, stop],
+ * **range** returns an iterator that yields numbers in range [start, stop],
  * iterating with the given step.
  *
  * @param start The number to start at.
@@ -73,53 +151,454 @@ export function range(
   stop: number,
   step: number,
   inclusive: true,
-): IterableIterator<number>;
-export function* range(
-  a?: number,
-  b?: number | true,
-  c?: number | true,
+): RangeIter<number>;
+/**
+ * **range** accepts bigints as well, with the same overloads as for
+ * numbers, and returns an iterator that yields bigints.
+ * 
+ * @example
+ * assertEquals([...range(10n, 0n, -3n)], [10n, 7n, 4n, 1n]);
+ */
+export function range(len: bigint): RangeIter<bigint>;
+export function range(stop: bigint, inclusive: true): RangeIter<bigint>;
+export function range(start: bigint, stop: bigint): RangeIter<bigint>;
+export function range(
+  start: bigint,
+  stop: bigint,
+  inclusive: true,
+): RangeIter<bigint>;
+export function range(
+  start: bigint,
+  stop: bigint,
+  step: bigint,
+): RangeIter<bigint>;
+export function range(
+  start: bigint,
+  stop: bigint,
+  step: bigint,
+  inclusive: true,
+): RangeIter<bigint>;
+export function range(
+  a?: Numeric,
+  b?: Numeric | true,
+  c?: Numeric | true,
   d?: true,
-): IterableIterator<number> {
-  const params = (() => {
-    if (typeof a === "number") {
-      if (typeof b === "boolean") {
-        return [0, a + 1, 1];
-      }
-      if (typeof b === "number") {
-        if (typeof c === "boolean") {
-          return [a, b + 1, 1];
-        }
-        if (typeof c === "number") {
-          if (typeof d === "boolean") {
-            return [a, b + 1, c];
-          }
-          return [a, b, c];
-        }
-        return [a, b, 1];
-      }
-      return [0, a, 1];
+): IterableIterator<number> | RangeIter<Numeric> {
+  if (a === undefined) {
+    return unbounded();
+  }
+  const zero = typeof a === "bigint" ? 0n : 0;
+  const one = typeof a === "bigint" ? 1n : 1;
+  const [begin, end, step, inclusive] = ((): [
+    Numeric,
+    Numeric,
+    Numeric,
+    boolean,
+  ] => {
+    if (b === undefined || b === true) {
+      return [zero, a, one, b === true];
+    }
+    if (c === undefined || c === true) {
+      return [a, b, one, c === true];
     }
-    return null;
+    return [a, b, c, d === true];
   })();
 
-  if (some(params)) {
-    const [begin, end, step] = params;
+  return new RangeIter(begin, step, rangeLength(begin, end, step, inclusive));
+}
+
+type Numeric = number | bigint;
+
+/**
+ * **rangeLength** returns the number of elements in the given range,
+ * or Infinity if the end is infinite, throwing if a bound is NaN,
+ * if the step is zero or if it goes away from the end.
+ */
+function rangeLength(
+  begin: Numeric,
+  end: Numeric,
+  step: Numeric,
+  inclusive: boolean,
+): number {
+  if (step === 0 || step === 0n || Number.isNaN(step)) {
+    throw new RangeError(`Invalid range: step ${step} must not be zero`);
+  }
+  if (Number.isNaN(begin) || Number.isNaN(end)) {
+    throw new RangeError(
+      `Invalid range: bounds ${begin} and ${end} must be numbers`,
+    );
+  }
+  if (step > 0 ? begin > end : begin < end) {
+    const relation = step > 0 ? "greater" : "less";
+    throw new RangeError(
+      `Invalid range: begin ${begin} is ${relation} than end ${end}`,
+    );
+  }
+  if (typeof step === "bigint") {
+    const diff = (end as bigint) - (begin as bigint);
+    const len = inclusive
+      ? diff / step + 1n
+      : (diff + step - (step > 0 ? 1n : -1n)) / step;
+    return checkLength(Number(len));
+  }
+  if (!Number.isFinite(step)) {
+    throw new RangeError(`Invalid range: step ${step} must be finite`);
+  }
+  if (!Number.isFinite(begin)) {
+    throw new RangeError(`Invalid range: begin ${begin} must be finite`);
+  }
+  if (!Number.isFinite(end)) {
+    return Infinity;
+  }
+  const steps = ((end as number) - (begin as number)) / step;
+  // Floating point division may be off by a few ulps, which must not add
+  // or remove an element: a stop of 0.7 with a step of 0.1 is 7 steps away.
+  const tolerance = steps * 8 * Number.EPSILON;
+  return checkLength(
+    inclusive
+      ? Math.floor(steps + tolerance) + 1
+      : Math.max(0, Math.ceil(steps - tolerance)),
+  );
+}
+
+const checkLength = (len: number): number => {
+  if (len > Number.MAX_SAFE_INTEGER) {
+    throw new RangeError(`Invalid range: too many elements (${len})`);
+  }
+  return len;
+};
+
+const checkFinite = (len: number, what: string) => {
+  if (len === Infinity) {
+    throw new RangeError(`Iter: Can't ${what} an infinite range`);
+  }
+};
 
-    if (begin > end) {
-      throw new Error(
-        `Invalid range: begin ${begin} is greater than end ${end}`,
-      );
+function* unbounded(): IterableIterator<number> {
+  let i = 0;
+  while (true) {
+    yield i++;
+  }
+}
+
+/**
+ * **Steps** yields the elements of a range, given by their index.
+ * The i-th element is computed by multiplication, so floating point
+ * errors don't accumulate.
+ */
+class Steps<N extends Numeric> implements DoubleEndedIterator<N> {
+  constructor(
+    readonly begin: N,
+    readonly step: N,
+    public front: number,
+    public back: number,
+  ) {}
+
+  at(index: number): N {
+    const { begin, step } = this as Steps<Numeric>;
+    if (typeof begin === "bigint") {
+      return (begin + (step as bigint) * BigInt(index)) as N;
     }
+    return (begin + (step as number) * index) as N;
+  }
 
-    let i = begin;
-    while (i < end) {
-      yield i;
-      i += step;
+  next(): IteratorResult<N> {
+    if (this.front >= this.back) {
+      return { value: undefined, done: true };
     }
-  } else {
-    let i = 0;
-    while (true) {
-      yield i++;
+    return { value: this.at(this.front++) };
+  }
+
+  nextBack(): IteratorResult<N> {
+    checkFinite(this.back, "iterate from the back");
+    if (this.front >= this.back) {
+      return { value: undefined, done: true };
+    }
+    return { value: this.at(--this.back) };
+  }
+
+  advanceBy(n: number): number {
+    const skipped = Math.max(0, Math.min(n, this.back - this.front));
+    this.front += skipped;
+    return skipped;
+  }
+
+  advanceBackBy(n: number): number {
+    checkFinite(this.back, "iterate from the back");
+    const skipped = Math.max(0, Math.min(n, this.back - this.front));
+    this.back -= skipped;
+    return skipped;
+  }
+
+  sizeHint(): SizeHint {
+    const len = Math.max(0, this.back - this.front);
+    return [len, len === Infinity ? null : len];
+  }
+}
+
+/**
+ * **RangeIter** is the iterator returned by **range** when an end
+ * is given. It can be iterated from both ends, and its elements can be
+ * counted, searched, reversed and sliced in constant time.
+ * 
+ * If the end is infinite, so is the range: its length is Infinity and
+ * it throws a RangeError when it is iterated from the back or reversed.
+ * 
+ * @template N the type of the elements, number or bigint
+ */
+export class RangeIter<N extends Numeric> extends DoubleEndedIter<N> {
+  private readonly steps: Steps<N>;
+
+  /**
+   * Creates a range of the given length, starting at begin.
+   * Use **range** to create ranges from their bounds.
+   * 
+   * @param begin The first element
+   * @param step The difference between consecutive elements
+   * @param length The number of elements
+   */
+  constructor(begin: N, step: N, length: number) {
+    const steps = new Steps(begin, step, 0, length);
+    super(steps);
+    this.steps = steps;
+  }
+
+  protected exhaust(): void {
+    super.exhaust();
+    this.steps.front = this.steps.back;
+  }
+
+  /**
+   * @returns the number of remaining elements
+   */
+  get length(): number {
+    return this.steps.sizeHint()[0];
+  }
+
+  /**
+   * **includes** checks if the given value is one of the remaining
+   * elements of the range, without consuming it.
+   * 
+   * @example
+   * assert(range(0, 10, 3).includes(6));
+   * assert(!range(0, 10, 3).includes(5));
+   * 
+   * @param value The value to search for
+   */
+  includes(value: N): boolean {
+    const { begin, step, front, back } = this.steps;
+    const index = typeof begin === "bigint"
+      ? Number(((value as bigint) - begin) / (step as bigint))
+      : Math.round(((value as number) - begin) / (step as number));
+    return front <= index && index < back && this.steps.at(index) === value;
+  }
+
+  /**
+   * **rev** returns a range over the remaining elements in reverse order.
+   * Unlike **rev** on other iterators, the result is a range too.
+   * 
+   * @example
+   * assertEquals([...range(3).rev()], [2, 1, 0]);
+   */
+  rev(): RangeIter<N> {
+    const { step, front, back } = this.steps;
+    checkFinite(back, "reverse");
+    const last = this.steps.at(back - 1);
+    return new RangeIter(last, -step as N, Math.max(0, back - front));
+  }
+
+  /**
+   * **slice** returns a range over a part of the remaining elements,
+   * given by their indices, as Array's **slice** does: negative indices
+   * are counted from the end. The range itself is not advanced.
+   * 
+   * @example
+   * assertEquals([...range(0, 100, 10).slice(2, -5)], [20, 30, 40]);
+   * 
+   * @param start The index of the first element, 0 by default
+   * @param end The index to end before, the length by default
+   */
+  slice(start = 0, end = this.length): RangeIter<N> {
+    const { length } = this;
+    if (start < 0 || end < 0) {
+      checkFinite(length, "slice from the end");
     }
+    const clamp = (i: number) =>
+      Math.min(Math.max(i < 0 ? length + i : i, 0), length);
+    const [from, to] = [clamp(start), clamp(end)];
+    const begin = this.steps.at(this.steps.front + from);
+    return new RangeIter(begin, this.steps.step, Math.max(0, to - from));
   }
 }
+
+/**
+ * **repeat** returns an iterator that yields the given value, indefinitely.
+ * 
+ * @example
+ * const zeros = repeat(0).take(3).collect(Array);
+ * assertEquals(zeros, [0, 0, 0]);
+ * 
+ * @param value The value to yield
+ */
+export function repeat<T>(value: T): Iter<T> {
+  return repeatWith(() => value);
+}
+
+/**
+ * **repeatN** returns an iterator that yields the given value n times.
+ * 
+ * @param value The value to yield
+ * @param n The number of times to yield the value
+ */
+export function repeatN<T>(value: T, n: number): DoubleEndedIter<T> {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new RangeError(`Iter: Invalid count ${n}, must be non-negative`);
+  }
+  let remaining = n;
+  const next = (): IteratorResult<T> => {
+    if (remaining === 0) {
+      return { value: undefined, done: true };
+    }
+    remaining--;
+    return { value };
+  };
+  const advanceBy = (n: number) => {
+    const skipped = Math.min(n, remaining);
+    remaining -= skipped;
+    return skipped;
+  };
+  return new DoubleEndedIter({
+    next,
+    nextBack: next,
+    advanceBy,
+    advanceBackBy: advanceBy,
+    sizeHint: () => [remaining, remaining],
+  });
+}
+
+/**
+ * **repeatWith** returns an iterator that yields the values returned
+ * by the given function, calling it for each element, indefinitely.
+ * 
+ * @example
+ * const ids = repeatWith(() => crypto.randomUUID()).take(2).collect(Array);
+ * 
+ * @param f The function that returns the values
+ */
+export function repeatWith<T>(f: () => T): Iter<T> {
+  return new Iter({
+    next: () => ({ value: f() }),
+    sizeHint: () => [Infinity, null],
+  });
+}
+
+/**
+ * **once** returns an iterator that yields the given value once.
+ * 
+ * @example
+ * const all = new Iter([1, 2]).chain(once(3)).collect(Array);
+ * assertEquals(all, [1, 2, 3]);
+ * 
+ * @param value The value to yield
+ */
+export function once<T>(value: T): DoubleEndedIter<T> {
+  return repeatN(value, 1);
+}
+
+/**
+ * **empty** returns an iterator that yields nothing.
+ */
+export function empty<T = never>(): DoubleEndedIter<T> {
+  return new DoubleEndedIter<T>([]);
+}
+
+/**
+ * **fromFn** returns an iterator that yields the values held by the
+ * Options returned by the given function, until it returns None.
+ * 
+ * @example
+ * let count = 0;
+ * const counter = fromFn(() => count < 3 ? Some(++count) : None);
+ * assertEquals([...counter], [1, 2, 3]);
+ * 
+ * @param f The function that returns the next element, if any
+ */
+export function fromFn<T>(f: () => Option<T>): Iter<T> {
+  let done = false;
+  return new Iter({
+    next: (): IteratorResult<T> => {
+      if (!done) {
+        const res = f();
+        if (res.some) {
+          return { value: res.value };
+        }
+        done = true;
+      }
+      return { value: undefined, done: true };
+    },
+  });
+}
+
+/**
+ * **successors** returns an iterator that yields the first value, if any,
+ * and then the values returned by the given function for the previous
+ * value, until it returns None.
+ * 
+ * @example
+ * const powers = successors(Some(1), (n) => n < 100 ? Some(n * 10) : None);
+ * assertEquals([...powers], [1, 10, 100]);
+ * 
+ * @param first The first value, if any
+ * @param f The function that returns the successor of a value, if any
+ */
+export function successors<T>(
+  first: Option<T>,
+  f: (v: T) => Option<T>,
+): Iter<T> {
+  let next = first;
+  return new Iter({
+    next: (): IteratorResult<T> => {
+      if (!next.some) {
+        return { value: undefined, done: true };
+      }
+      const { value } = next;
+      next = f(value);
+      return { value };
+    },
+    sizeHint: () => next.some ? [1, null] : [0, 0],
+  });
+}
+
+/**
+ * **unfold** returns an iterator that computes its elements from
+ * a state: the given function returns the next element together with
+ * the next state, or None to end the iteration.
+ * 
+ * @example
+ * const fib = unfold([0, 1], ([a, b]) => Some([a, [b, a + b]]));
+ * assertEquals(fib.take(6).collect(Array), [0, 1, 1, 2, 3, 5]);
+ * 
+ * @param seed The initial state
+ * @param f The function that returns the next element and state, if any
+ */
+export function unfold<T, S>(
+  seed: S,
+  f: (state: S) => Option<[T, S]>,
+): Iter<T> {
+  let state: Option<S> = Some(seed);
+  return new Iter({
+    next: (): IteratorResult<T> => {
+      if (!state.some) {
+        return { value: undefined, done: true };
+      }
+      const res = f(state.value);
+      if (!res.some) {
+        state = None;
+        return { value: undefined, done: true };
+      }
+      const [value, next] = res.value;
+      state = Some(next);
+      return { value };
+    },
+  });
+}